@@ -4,480 +4,385 @@ import type React from "react"
 
 import { useState, useEffect, useRef, useCallback, useMemo } from "react"
 import { useTelemetry } from "@/hooks/useTelemetry"
+import { useViewport } from "@/hooks/useViewport"
+import { useZoomHistory } from "@/hooks/useZoomHistory"
+import { useAnnotations } from "@/hooks/useAnnotations"
+import { useThresholdProfiles } from "@/hooks/useThresholdProfiles"
+import { AnnotationDialog, type AnnotationDraft } from "@/components/annotation-dialog"
+import { ChannelStrips } from "@/components/channel-strips"
+import { OverviewBrush } from "@/components/overview-brush"
+import { ThresholdSettingsDialog } from "@/components/threshold-settings-dialog"
+import { TimeSeriesCanvas, type ChartMarker, type TooltipEntry } from "@/components/time-series-canvas"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Play, Pause, Wifi, WifiOff, TrendingUp, Zap, Thermometer, FileImage, FileText } from "lucide-react"
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Play,
+  Pause,
+  Wifi,
+  WifiOff,
+  TrendingUp,
+  Zap,
+  Thermometer,
+  Activity,
+  BatteryMedium,
+  ShieldCheck,
+  ShieldAlert,
+  CircleStop,
+  Flag,
+  Timer,
+  Radio,
+  Spline,
+  FileImage,
+  FileText,
+  Ruler,
+  Undo2,
+  Redo2,
+  FastForward,
+  Crosshair,
+  StickyNote,
+  SlidersHorizontal,
+  Pencil,
+  Trash2,
+} from "lucide-react"
+import {
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+  ReferenceArea,
+} from "recharts"
 import { max } from "date-fns"
-
-interface TelemetryPoint {
-  t: number // timestamp in seconds
-  speed: number // m/s
-  current: number // A
-  temp: number // °C
-}
-
-interface WebSocketStatus {
-  connected: boolean
-  latency: number
-  lastUpdate: Date | null
-}
+import { formatChannelLabel, formatChannelValue, type Channel } from "@/lib/telemetry/channels"
+import { totalErrors } from "@/lib/telemetry/decoder"
+import type { Interpolation } from "@/lib/telemetry/align"
+import { ANNOTATION_COLORS, annotationsToCsvHeader, type Annotation } from "@/lib/telemetry/annotations"
+import { AXIS_MODES, axisAt, buildAxes, zoomRange, type AxisMode, type ValueRange } from "@/lib/telemetry/axes"
+import type { ViewportQuery } from "@/lib/telemetry/client"
+import { columnsToRows, seriesToRows } from "@/lib/telemetry/columns"
+import { DECIMATION_MODES, type DecimationMode } from "@/lib/telemetry/downsample"
+import { formatTime, toEpoch, type TimeAxisMode } from "@/lib/telemetry/timebase"
+import type { Measurement } from "@/lib/telemetry/measure"
+import { EMPTY_METRICS, type KPIData, type KPIMetrics } from "@/lib/telemetry/metrics"
+import { SEVERITY_COLORS, severityOf, thresholdLines, type ChannelThresholds } from "@/lib/telemetry/thresholds"
+import type { TelemetryPoint } from "@/lib/types/telemtery"
 
 interface ChartDomain {
   xMin: number
   xMax: number
-  yMin: number
-  yMax: number
+  y: Record<string, ValueRange> // manual range per Y axis, keyed by axis id
 }
 
-interface series {
-  speed: boolean
-  current: boolean
-  temp: boolean
-}
-
-interface KPIMetrics {
-  avg: number
-  max: number
-  last: number
-}
-
-interface KPIData {
-  speed: KPIMetrics
-  current: KPIMetrics
-  temp: KPIMetrics
-}
 
-const THRESHOLDS = {
-  speed: { max: 50, warning: 45 }, // m/s
-  current: { max: 100, warning: 85 }, // A
-  temp: { max: 80, warning: 70 }, // °C
+const CHANNEL_ICONS: Record<string, React.ElementType> = {
+  speed: TrendingUp,
+  current: Zap,
+  temp: Thermometer,
+  battery: BatteryMedium,
 }
 
-const WEBSOCKET_URL = "ws://localhost:8080/telemetry"
+const WEBSOCKET_URL = process.env.NEXT_PUBLIC_TELEMETRY_WS_URL ?? "ws://localhost:8000/ws/replay"
 const MAX_BUFFER_SIZE = 120000 // 120k points max
-const BATCH_INTERVAL = 100 // ms
+const REORDER_WINDOW = 250 // ms late samples may arrive and still be put in order
 const MIN_ZOOM_SPAN = 2 // minimum 2 seconds visible
+const FOLLOW_SPAN = 30 // seconds shown behind the live edge until the user picks another width
 const ZOOM_SENSITIVITY = 0.1
-const CHART_WIDTH_PIXELS = 800 // Approximate chart width for downsampling calculation
+const WHEEL_GESTURE_GAP = 400 // ms without wheel ticks before the next one starts a new zoom history entry
+const MIN_BOX_SIZE = 5 // px a box-zoom drag must span on an axis before it zooms that axis
+const CURSOR_GRAB = 6 // px either side of a measurement cursor that picks it up
+const MEASURE_COLORS = { a: "#f97316", b: "#a855f7" }
+const EMPTY_ANNOTATION: AnnotationDraft = { t0: 0, t1: null, title: "", note: "", color: ANNOTATION_COLORS[0] }
+const CHART_WIDTH_PIXELS = 800 // Chart width assumed until the container has been measured
 const DOWNSAMPLE_THRESHOLD = 1000 // Start downsampling when more than 1000 points visible
-const MOCK_DATA_INTERVAL = 50 // Generate mock data every 50ms
-const MOCK_DATA_ENABLED = true // Enable mock data by default
-
-function downsampleLTTB(data: TelemetryPoint[], threshold: number): TelemetryPoint[] {
-  if (data.length <= threshold || threshold <= 2) {
-    return data
-  }
-
-  const bucketSize = (data.length - 2) / (threshold - 2)
-  const sampled: TelemetryPoint[] = [data[0]] // Always include first point
-
-  let bucketIndex = 0
-  for (let i = 1; i < threshold - 1; i++) {
-    const bucketStart = Math.floor(bucketIndex * bucketSize) + 1
-    const bucketEnd = Math.floor((bucketIndex + 1) * bucketSize) + 1
-    const nextBucketStart = Math.floor((bucketIndex + 1) * bucketSize) + 1
-    const nextBucketEnd = Math.min(Math.floor((bucketIndex + 2) * bucketSize) + 1, data.length - 1)
-
-    let avgNextX = 0
-    let avgNextY = 0
-    let nextBucketLength = 0
-
-    for (let j = nextBucketStart; j < nextBucketEnd; j++) {
-      avgNextX += data[j].t
-      avgNextY += data[j].speed
-      nextBucketLength++
-    }
-
-    if (nextBucketLength > 0) {
-      avgNextX /= nextBucketLength
-      avgNextY /= nextBucketLength
-    }
-
-    let maxArea = -1
-    let maxAreaIndex = bucketStart
-
-    const prevPoint = sampled[sampled.length - 1]
-
-    for (let j = bucketStart; j < bucketEnd; j++) {
-      const area =
-        Math.abs(
-          (prevPoint.t - avgNextX) * (data[j].speed - prevPoint.speed) -
-            (prevPoint.t - data[j].t) * (avgNextY - prevPoint.speed),
-        ) * 0.5
-
-      if (area > maxArea) {
-        maxArea = area
-        maxAreaIndex = j
-      }
-    }
-
-    sampled.push(data[maxAreaIndex])
-    bucketIndex++
-  }
-
-  sampled.push(data[data.length - 1]) // Always include last point
-  return sampled
-}
-
-function downsampleMinMax(data: TelemetryPoint[], targetPoints: number): TelemetryPoint[] {
-  if (data.length <= targetPoints) {
-    return data
-  }
-
-  const bucketSize = Math.ceil(data.length / targetPoints)
-  const downsampled: TelemetryPoint[] = []
-
-  for (let i = 0; i < data.length; i += bucketSize) {
-    const bucket = data.slice(i, Math.min(i + bucketSize, data.length))
-
-    if (bucket.length === 1) {
-      downsampled.push(bucket[0])
-      continue
-    }
-
-    let minPoint = bucket[0]
-    let maxPoint = bucket[0]
-    let minValue = bucket[0].speed + bucket[0].current + bucket[0].temp
-    let maxValue = minValue
+const RECHARTS_MAX_POINTS = 2000 // Above this many points in view the canvas renderer takes over from SVG
+
+const PNG_LEGEND_HEIGHT = 24 // px under the chart in a PNG export for a legend of the visible channels
+
+// presentation properties copied onto an SVG before it is rasterized, since the stylesheet (and the CSS
+// variables the chart's colors refer to) don't come along into an image
+const SVG_STYLE_PROPERTIES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-opacity",
+  "stroke-width",
+  "stroke-dasharray",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+]
+
+function rasterizeSvg(svg: SVGSVGElement): Promise<HTMLImageElement> {
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  const source = [svg, ...svg.querySelectorAll("*")]
+  const copies = [clone, ...clone.querySelectorAll("*")]
+  source.forEach((element, i) => {
+    const computed = getComputedStyle(element)
+    const style = (copies[i] as SVGElement).style
+    for (const property of SVG_STYLE_PROPERTIES) style.setProperty(property, computed.getPropertyValue(property))
+  })
+  const { width, height } = svg.getBoundingClientRect()
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg")
+  clone.setAttribute("width", String(width))
+  clone.setAttribute("height", String(height))
 
-    for (const point of bucket) {
-      const value = point.speed + point.current + point.temp
-      if (value < minValue) {
-        minValue = value
-        minPoint = point
-      }
-      if (value > maxValue) {
-        maxValue = value
-        maxPoint = point
-      }
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(clone)], { type: "image/svg+xml;charset=utf-8" }),
+  )
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
     }
-
-    if (minPoint.t < maxPoint.t) {
-      downsampled.push(minPoint, maxPoint)
-    } else {
-      downsampled.push(maxPoint, minPoint)
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Could not rasterize the chart SVG"))
     }
-  }
-
-  return downsampled
+    image.src = url
+  })
 }
 
 export default function TelemetryDashboard() {
   const {
-  playing, followTail, series, data, hz,
-  setFollowTail, setHz,
-  play, pause, toggleSeries, pushPoint, clear,
-} = useTelemetry(4);
-
-console.log('[PAGE] data.length:', data.length);
-
-  const [wsStatus, setWsStatus] = useState<WebSocketStatus>({
-    connected: false,
-    latency: 0,
-    lastUpdate: null,
-  })
-  const [isPlaying, setIsPlaying] = useState(false)
+    playing, followTail, channels, series, session, sessionId, startTime, timeBase, linkStats, gaps, reorderStats,
+    interpolation, length, range, version, link, protocol,
+    setFollowTail,
+    play, pause, toggleSeries, setInterpolation, markLap, clear, query,
+  } = useTelemetry(4, MAX_BUFFER_SIZE, REORDER_WINDOW, WEBSOCKET_URL);
 
   const [playbackRate, setPlaybackRate] = useState("1")
   const [selectedSession, setSelectedSession] = useState("session-1")
-  const [isMockMode, setIsMockMode] = useState(false)
 
   const [chartDomain, setChartDomain] = useState<ChartDomain | null>(null)
+  const [timeAxisMode, setTimeAxisMode] = useState<TimeAxisMode>("relative")
+  const [decimation, setDecimation] = useState<DecimationMode>("minmax")
+  const [chartWidth, setChartWidth] = useState(CHART_WIDTH_PIXELS)
+  const [axisModes, setAxisModes] = useState<Record<string, AxisMode>>({})
+  // channel key -> the channel whose Y axis it shares; absent means an axis of its own
+  const [axisGroups, setAxisGroups] = useState<Record<string, string>>({})
+  // every channel over one plot, or a strip per Y axis stacked under each other
+  const [chartLayout, setChartLayout] = useState<"overlay" | "stacked">("overlay")
+  // time under the pointer, shared by the stacked strips
+  const [cursorT, setCursorT] = useState<number | null>(null)
+  // width of the view while it follows the live edge
+  const [followSpan, setFollowSpan] = useState(FOLLOW_SPAN)
 
   const [isDragging, setIsDragging] = useState(false)
-  const [dragStart, setDragStart] = useState<{ x: number; domain: ChartDomain } | null>(null)
-
-  const wsRef = useRef<WebSocket | null>(null)
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout>()
-  const heartbeatIntervalRef = useRef<NodeJS.Timeout>()
-  const batchTimeoutRef = useRef<NodeJS.Timeout>()
-  const pendingDataRef = useRef<TelemetryPoint[]>([])
-  const reconnectAttemptsRef = useRef(0)
-  const chartContainerRef = useRef<HTMLDivElement>(null)
-  const mockDataIntervalRef = useRef<NodeJS.Timeout>()
-  const mockTimeRef = useRef(0)
+  const [dragStart, setDragStart] = useState<{ x: number; domain: ChartDomain; moved: boolean } | null>(null)
+  // box-zoom rectangle while shift-dragging, relative to the chart container
+  const [zoomBox, setZoomBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null)
+  // measurement cursors A and B, as times so they stay put through zoom and pan
+  const [measureCursors, setMeasureCursors] = useState<{ a: number; b: number } | null>(null)
+  const [measureDrag, setMeasureDrag] = useState<"a" | "b" | null>(null)
+  const [measurements, setMeasurements] = useState<Record<string, Measurement> | null>(null)
+  const zoomHistory = useZoomHistory<ChartDomain>()
+  // annotations are kept per session: the one the stream announced, else the one picked in the header, and per run
+  // only when the stream announced when the run started
+  const { annotations, addAnnotation, updateAnnotation, removeAnnotation } = useAnnotations(
+    `${sessionId ?? selectedSession}${startTime === null ? "" : `@${startTime}`}`,
+  )
+  // the annotation being added (id null) or edited, while the dialog is open
+  const [annotationEdit, setAnnotationEdit] = useState<{ id: string | null; draft: AnnotationDraft } | null>(null)
+  // warning and critical limits of the vehicle profile in use
+  const { profiles, activeProfile, thresholds, saveProfile, removeProfile } = useThresholdProfiles()
+  const [limitsOpen, setLimitsOpen] = useState(false)
+  // the limits KPI exceedances are counted against, per channel
+  const warningLimits = useMemo(
+    () => Object.fromEntries(Object.entries(thresholds).map(([key, t]) => [key, t.warning])),
+    [thresholds],
+  )
+  const wheelAtRef = useRef(0)
 
-  const kpiData = useMemo((): KPIData => {
-    if (data.length === 0) {
-      return {
-        speed: { avg: 0, max: 0, last: 0 },
-        current: { avg: 0, max: 0, last: 0 },
-        temp: { avg: 0, max: 0, last: 0 },
-      }
-    }
+  const chartContainerRef = useRef<HTMLDivElement>(null)
 
-    const visibleData = data.filter((point) => {
-      return series.speed || series.current || series.temp
+  // decimation targets the measured chart width: one pixel column per bucket
+  useEffect(() => {
+    const element = chartContainerRef.current
+    if (!element) return
+    const observer = new ResizeObserver(([entry]) => {
+      const width = Math.round(entry.contentRect.width)
+      if (width > 0) setChartWidth(width)
     })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
 
-    if (visibleData.length === 0) {
-      return {
-        speed: { avg: 0, max: 0, last: 0 },
-        current: { avg: 0, max: 0, last: 0 },
-        temp: { avg: 0, max: 0, last: 0 },
-      }
-    }
-
-    const calculateMetrics = (values: number[]): KPIMetrics => {
-      if (values.length === 0) return { avg: 0, max: 0, last: 0 }
-
-      let sum = 0
-      let max = values[0]
-
-
-
-      for (let i = 0; i < values.length; i++) {
-        const val = values[i]
-        sum += val
-        if (val > max) max = val
-      }
-
-      return {
-        avg: sum / values.length,
-        max,
-        last: values[values.length - 1],
-      }
-    }
-
-    return {
-      speed: series.speed ? calculateMetrics(visibleData.map((d) => d.speed)) : { avg: 0, max: 0, last: 0 },
-      current: series.current
-        ? calculateMetrics(visibleData.map((d) => d.current))
-        : { avg: 0, max: 0, last: 0 },
-      temp: series.temp ? calculateMetrics(visibleData.map((d) => d.temp)) : { avg: 0, max: 0, last: 0 },
-    }
-  }, [data, series])
-
-  const generateMockData = useCallback(() => {
-    if (!isPlaying) return
-
-    const rate = Number.parseFloat(playbackRate)
-    const deltaT = (MOCK_DATA_INTERVAL / 1000) * rate
-
-    mockTimeRef.current += deltaT
-
-    const baseSpeed = 30 + Math.sin(mockTimeRef.current * 0.1) * 15
-    const baseCurrent = 60 + Math.sin(mockTimeRef.current * 0.15) * 25
-    const baseTemp = 50 + Math.sin(mockTimeRef.current * 0.05) * 20
-
-    const point: TelemetryPoint = {
-      t: mockTimeRef.current,
-      speed: Math.max(0, baseSpeed + (Math.random() - 0.5) * 5),
-      current: Math.max(0, baseCurrent + (Math.random() - 0.5) * 10),
-      temp: Math.max(0, baseTemp + (Math.random() - 0.5) * 8),
-    }
-
-    pendingDataRef.current.push(point)
-
-    if (batchTimeoutRef.current) {
-      clearTimeout(batchTimeoutRef.current)
-    }
-
-    batchTimeoutRef.current = setTimeout(() => {
-      if (pendingDataRef.current.length > 0) {
-        setData((prevData) => {
-          const newData = [...prevData, ...pendingDataRef.current]
-          pendingDataRef.current = []
-
-          if (newData.length > MAX_BUFFER_SIZE) {
-            return newData.slice(-MAX_BUFFER_SIZE)
-          }
-          return newData
-        })
-
-        setWsStatus((prev) => ({ ...prev, lastUpdate: new Date() }))
-      }
-    }, BATCH_INTERVAL)
-  }, [isPlaying, playbackRate])
-
-  const connectWebSocket = useCallback(() => {
-    if (isMockMode) return
-
-    try {
-      const ws = new WebSocket(WEBSOCKET_URL)
-      wsRef.current = ws
-
-      ws.onopen = () => {
-        console.log("[v0] WebSocket connected")
-        setWsStatus((prev) => ({ ...prev, connected: true }))
-        setIsMockMode(false)
-        reconnectAttemptsRef.current = 0
-
-        if (mockDataIntervalRef.current) {
-          clearInterval(mockDataIntervalRef.current)
-          mockDataIntervalRef.current = undefined
-        }
+  // render-ready rows for the visible domain, decimated per visible channel by the worker
+  const viewportRequest = useMemo(
+    (): ViewportQuery => ({
+      type: "viewport",
+      t0: chartDomain && !isNaN(chartDomain.xMin) ? chartDomain.xMin : null,
+      t1: chartDomain && !isNaN(chartDomain.xMax) ? chartDomain.xMax : null,
+      keys: channels.filter((c) => series[c.key]).map((c) => c.key),
+      pixels: chartWidth,
+      mode: decimation,
+      threshold: DOWNSAMPLE_THRESHOLD,
+      interpolation,
+      warning: warningLimits,
+    }),
+    [chartDomain, channels, series, chartWidth, decimation, interpolation, warningLimits],
+  )
+  const viewport = useViewport(query, viewportRequest, version)
 
-        heartbeatIntervalRef.current = setInterval(() => {
-          if (ws.readyState === WebSocket.OPEN) {
-            const pingTime = Date.now()
-            ws.send(JSON.stringify({ type: "ping", timestamp: pingTime }))
-          }
-        }, 5000)
-      }
+  // the whole session at one envelope per pixel, for the overview strip under the chart
+  const overviewRequest = useMemo(
+    (): ViewportQuery => ({ ...viewportRequest, t0: null, t1: null, mode: "minmax", threshold: chartWidth }),
+    [viewportRequest, chartWidth],
+  )
+  const overview = useViewport(query, overviewRequest, version)
 
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data)
-
-          if (message.type === "pong") {
-            const latency = Date.now() - message.timestamp
-            setWsStatus((prev) => ({ ...prev, latency }))
-            return
-          }
-
-          if (message.type === "telemetry" && isPlaying) {
-            const point: TelemetryPoint = {
-              t: message.t,
-              speed: message.speed,
-              current: message.current,
-              temp: message.temp,
-            }
-
-            pendingDataRef.current.push(point)
-
-            if (batchTimeoutRef.current) {
-              clearTimeout(batchTimeoutRef.current)
-            }
-
-            batchTimeoutRef.current = setTimeout(() => {
-              if (pendingDataRef.current.length > 0) {
-                setData((prevData) => {
-                  const newData = [...prevData, ...pendingDataRef.current]
-                  pendingDataRef.current = []
-
-                  if (newData.length > MAX_BUFFER_SIZE) {
-                    return newData.slice(-MAX_BUFFER_SIZE)
-                  }
-                  return newData
-                })
-
-                setWsStatus((prev) => ({ ...prev, lastUpdate: new Date() }))
-              }
-            }, BATCH_INTERVAL)
-          }
-        } catch (error) {
-          console.error("[v0] Error parsing WebSocket message:", error)
-        }
-      }
+  // rows the SVG chart draws: every channel aligned on all their timestamps, emptied at gap breaks
+  const renderData = useMemo(
+    () => (viewport ? seriesToRows(viewport.series, Object.keys(viewport.series), interpolation) : []),
+    [viewport, interpolation],
+  )
 
-      ws.onclose = () => {
-        console.log("[v0] WebSocket disconnected, switching to mock data mode")
-        setWsStatus((prev) => ({ ...prev, connected: false }))
+  // SVG for small windows, canvas once there are too many points for one DOM node per point
+  const canvasMode = (viewport?.length ?? 0) > RECHARTS_MAX_POINTS
 
-        if (heartbeatIntervalRef.current) {
-          clearInterval(heartbeatIntervalRef.current)
-        }
+  const visibleSeries = useMemo(
+    () =>
+      channels
+        .filter((c) => series[c.key])
+        .map((channel) => ({ channel, interpolation: interpolation[channel.key] ?? channel.interpolation })),
+    [channels, series, interpolation],
+  )
 
-        if (MOCK_DATA_ENABLED && !isMockMode) {
-          setIsMockMode(true)
-        } else {
-          const backoffDelay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 30000)
-          reconnectAttemptsRef.current++
-
-          if (reconnectAttemptsRef.current < 3) {
-            reconnectTimeoutRef.current = setTimeout(() => {
-              connectWebSocket()
-            }, backoffDelay)
-          } else if (MOCK_DATA_ENABLED) {
-            setIsMockMode(true)
-          }
-        }
-      }
+  // one Y axis per drawn channel or group, each scaled by its own mode
+  const axes = useMemo(
+    () =>
+      buildAxes(
+        channels.filter((c) => series[c.key]),
+        axisGroups,
+        axisModes,
+        chartDomain?.y ?? {},
+        viewport?.extents ?? {},
+        viewport?.sessionExtents ?? {},
+      ),
+    [channels, series, axisGroups, axisModes, chartDomain?.y, viewport],
+  )
+  const axisOf = useMemo(
+    () => Object.fromEntries(axes.flatMap((axis) => axis.channels.map((c) => [c.key, axis.id]))),
+    [axes],
+  )
+  const canvasSeries = useMemo(
+    () =>
+      visibleSeries.map((s) => ({
+        ...s,
+        axisId: axisOf[s.channel.key],
+        thresholds: thresholds[s.channel.key],
+      })),
+    [visibleSeries, axisOf, thresholds],
+  )
 
-      ws.onerror = () => {
-        console.log("[v0] WebSocket connection failed, will use mock data")
-      }
-    } catch (error) {
-      console.log("[v0] Failed to create WebSocket connection, using mock data")
-      if (MOCK_DATA_ENABLED) {
-        setIsMockMode(true)
-      }
+  const setAxisMode = (id: string, mode: AxisMode) => {
+    setAxisModes((prev) => ({ ...prev, [id]: mode }))
+    // a manual axis starts from whatever it shows now
+    const axis = axes.find((a) => a.id === id)
+    if (mode === "manual" && axis && !chartDomain?.y[id]) {
+      setManualRange(id, { min: axis.domain[0], max: axis.domain[1] })
     }
-  }, [isPlaying, isMockMode])
+  }
 
-  /*useEffect(() => {
-    if (isMockMode && isPlaying) {
-      console.log("[v0] Starting mock data generation")
-      mockDataIntervalRef.current = setInterval(generateMockData, MOCK_DATA_INTERVAL)
+  const setManualRange = useCallback((id: string, range: ValueRange) => {
+    if (!(range.min < range.max)) return
+    setChartDomain((prev) => prev && { ...prev, y: { ...prev.y, [id]: range } })
+  }, [])
 
-      return () => {
-        if (mockDataIntervalRef.current) {
-          clearInterval(mockDataIntervalRef.current)
-        }
-      }
+  // plot rectangles inside the chart container with the axes drawn beside each: one per stacked strip, or
+  // the single chart; canvas plots mark themselves, the recharts plot is its grid background
+  const plotAreas = useCallback(() => {
+    const container = chartContainerRef.current
+    if (!container) return []
+    const marked = [...container.querySelectorAll<HTMLElement>("[data-plot-area]")]
+    if (marked.length > 0) {
+      return marked.map((element) => {
+        const ids = element.dataset.plotArea?.split(",") ?? []
+        return { rect: element.getBoundingClientRect(), axes: axes.filter((a) => ids.includes(a.id)) }
+      })
     }
-  }, [isMockMode, isPlaying, generateMockData])*/
-
-  useEffect(() => {
-    connectWebSocket()
+    const grid = container.querySelector(".recharts-cartesian-grid-bg")
+    return grid ? [{ rect: grid.getBoundingClientRect(), axes }] : []
+  }, [axes])
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close()
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current)
-      }
-      if (heartbeatIntervalRef.current) {
-        clearInterval(heartbeatIntervalRef.current)
-      }
-      if (batchTimeoutRef.current) {
-        clearTimeout(batchTimeoutRef.current)
-      }
-      if (mockDataIntervalRef.current) {
-        clearInterval(mockDataIntervalRef.current)
-      }
-    }
-  }, [connectWebSocket])
+  // the view about to be left goes on the back stack; wheel ticks close together count as one zoom
+  const recordView = useCallback(() => {
+    if (chartDomain) zoomHistory.record(chartDomain)
+  }, [chartDomain, zoomHistory.record])
 
-  const chartData = useMemo(() => {
-  console.log('[CHARTDATA] Recalculating, data:', data.length, 'domain:', chartDomain);
-  
-  if (data.length === 0) return [];
-  
-  // If no domain set, return all data
-  if (!chartDomain || isNaN(chartDomain.xMin) || isNaN(chartDomain.xMax)) {
-    return data;
-  }
-  
-  // Filter to visible range
-  return data.filter(d => d.t >= chartDomain.xMin && d.t <= chartDomain.xMax);
-}, [data, chartDomain]);
+  const recordWheel = useCallback(
+    (e: React.WheelEvent) => {
+      if (e.timeStamp - wheelAtRef.current > WHEEL_GESTURE_GAP) recordView()
+      wheelAtRef.current = e.timeStamp
+    },
+    [recordView],
+  )
 
-  // Initialize chart domain when data first arrives
+  // Initialize chart domain when data first arrives, then keep it on the live edge while following the tail.
+  // A view the user has frozen stays put while new samples keep accumulating past it.
 useEffect(() => {
-  if (data.length > 0) {
-    const minT = Math.min(...data.map((d) => d.t))
-    const maxT = Math.max(...data.map((d) => d.t))
+  if (range) {
+    const { min: minT, max: maxT } = range
 
     console.log('[INIT DOMAIN] minT:', minT, 'maxT:', maxT);
 
-    setChartDomain({
-      xMin: followTail ? Math.max(0, maxT - 30) : minT,
-      xMax: maxT,
-      yMin: 0,
-      yMax: 100,
+    setChartDomain((prev) => {
+      if (prev && !followTail) return prev
+      return {
+        xMin: followTail ? Math.max(minT, maxT - followSpan) : minT,
+        xMax: maxT,
+        y: prev?.y ?? {},
+      }
     })
   }
-}, [data.length])
+}, [version])
 
   const handleWheel = useCallback(
     (e: React.WheelEvent) => {
       console.log('WHEEL EVENT FIRED');
-    
-       if (playing) {
-        console.log('blocked - playing');
-        return;
-    }
+
+      // over a Y axis the wheel zooms that axis about the value under the pointer
+      const area = plotAreas().find(({ rect }) => e.clientY >= rect.top && e.clientY <= rect.bottom)
+      const axis = area && axisAt(area.axes, e.clientX - area.rect.left, area.rect.width)
+      if (area && axis && chartDomain) {
+        e.preventDefault()
+        e.stopPropagation()
+        const [min, max] = axis.domain
+        const anchor = max - ((e.clientY - area.rect.top) / area.rect.height) * (max - min)
+        recordWheel(e)
+        setAxisModes((prev) => ({ ...prev, [axis.id]: "manual" }))
+        setManualRange(axis.id, zoomRange({ min, max }, anchor, e.deltaY > 0 ? 1 + ZOOM_SENSITIVITY : 1 - ZOOM_SENSITIVITY))
+        return
+      }
 
     e.preventDefault()
     e.stopPropagation() 
 
-      if (!chartDomain || data.length === 0) {
+      if (!chartDomain || !range) {
         console.log('[WHEEL] EARLY RETURN - no domain or no data');
       return;
       }
@@ -490,8 +395,7 @@ useEffect(() => {
       return;
     }
 
-      const minT = Math.min(...data.map((d) => d.t))
-      const maxT = Math.max(...data.map((d) => d.t))
+      const { min: minT, max: maxT } = range
       const totalDataSpan = maxT - minT
 
       console.log('[WHEEL] minT:', minT, 'maxT:', maxT, 'span:', totalDataSpan);
@@ -549,13 +453,14 @@ if (newXMin >= newXMax || isNaN(newXMin) || isNaN(newXMax)) {
       console.log('[WHEEL] AFTER CLAMP - newXMin:', newXMin, 'newXMax:', newXMax);
       console.log('[WHEEL] Setting new domain!');
 
+      recordWheel(e)
       setChartDomain({
         ...chartDomain,
         xMin: newXMin,
         xMax: newXMax,
       })
     },
-    [chartDomain, data, playing],
+    [chartDomain, range, plotAreas, recordWheel, setManualRange],
   )
   /**What happens:**
 - State updates with new boundaries
@@ -576,23 +481,71 @@ After zoom IN (showing 4 seconds):
      3.5s 4.5s 5.5s 6.5s 7.5s
                ↑ mouse (still here!) */
 
+  // time under the pointer on the plot, for measurement cursors
+  const timeAtPointer = useCallback(
+    (clientX: number) => {
+      const area = plotAreas()[0]
+      if (!area || !chartDomain) return null
+      const x = Math.min(area.rect.right, Math.max(area.rect.left, clientX))
+      return chartDomain.xMin + ((x - area.rect.left) / area.rect.width) * (chartDomain.xMax - chartDomain.xMin)
+    },
+    [plotAreas, chartDomain],
+  )
+
   const handleMouseDown = useCallback(
     (e: React.MouseEvent) => {
       if (!chartDomain) return
 
+      // grabbing a measurement cursor moves it instead of panning
+      const area = plotAreas()[0]
+      if (measureCursors && area) {
+        const span = chartDomain.xMax - chartDomain.xMin
+        const xOf = (t: number) => area.rect.left + ((t - chartDomain.xMin) / span) * area.rect.width
+        const grabbed = (["a", "b"] as const).find((id) => Math.abs(e.clientX - xOf(measureCursors[id])) <= CURSOR_GRAB)
+        if (grabbed) {
+          setMeasureDrag(grabbed)
+          return
+        }
+      }
+
+      // shift-drag draws a box to zoom into instead of panning
+      if (e.shiftKey && chartContainerRef.current) {
+        const origin = chartContainerRef.current.getBoundingClientRect()
+        const x = e.clientX - origin.left
+        const y = e.clientY - origin.top
+        setZoomBox({ x0: x, y0: y, x1: x, y1: y })
+        return
+      }
+
       setIsDragging(true)
       setFollowTail(false)
       setDragStart({
         x: e.clientX,
         domain: { ...chartDomain },
+        moved: false,
       })
     },
-    [chartDomain],
+    [chartDomain, plotAreas, measureCursors],
   )
 
   const handleMouseMove = useCallback(
     (e: React.MouseEvent) => {
+      if (measureDrag && measureCursors) {
+        const t = timeAtPointer(e.clientX)
+        if (t !== null) setMeasureCursors({ ...measureCursors, [measureDrag]: t })
+        return
+      }
+      if (zoomBox && chartContainerRef.current) {
+        const origin = chartContainerRef.current.getBoundingClientRect()
+        setZoomBox({ ...zoomBox, x1: e.clientX - origin.left, y1: e.clientY - origin.top })
+        return
+      }
       if (!isDragging || !dragStart || !chartContainerRef.current) return
+      // a click is not a pan: the view is only recorded once the pointer actually moves
+      if (!dragStart.moved) {
+        zoomHistory.record(dragStart.domain)
+        setDragStart({ ...dragStart, moved: true })
+      }
 
       const rect = chartContainerRef.current.getBoundingClientRect()
       const deltaX = (e.clientX - dragStart.x) / rect.width
@@ -606,8 +559,7 @@ After zoom IN (showing 4 seconds):
       // Define boundaries
       
 
-      const minTime = 0
-      const maxTime = (data.length - 1) / hz
+      const { min: minTime, max: maxTime } = range ?? { min: 0, max: 0 }
 
       let clampedXMin = newXMin
       let clampedXMax = newXMax
@@ -633,70 +585,250 @@ console.log('clampedXMax:', clampedXMax)
         xMax: clampedXMax,
       })
     },
-    [isDragging, dragStart, data, hz],
+    [isDragging, dragStart, range, zoomBox, zoomHistory.record, measureDrag, measureCursors, timeAtPointer],
+  )
+
+  // zooms X to the box and, where the box is tall enough, the Y axes of the plot it was drawn on
+  const applyZoomBox = useCallback(
+    (box: { x0: number; y0: number; x1: number; y1: number }) => {
+      const container = chartContainerRef.current
+      if (!chartDomain || !container) return
+      const origin = container.getBoundingClientRect()
+      const areas = plotAreas()
+      const area =
+        areas.find(({ rect }) => box.y0 + origin.top >= rect.top && box.y0 + origin.top <= rect.bottom) ??
+        (areas.length === 1 ? areas[0] : null)
+      if (!area) return
+      const { rect } = area
+      const clampX = (x: number) => Math.min(rect.right, Math.max(rect.left, x))
+      const clampY = (y: number) => Math.min(rect.bottom, Math.max(rect.top, y))
+      const left = clampX(origin.left + Math.min(box.x0, box.x1))
+      const right = clampX(origin.left + Math.max(box.x0, box.x1))
+      const top = clampY(origin.top + Math.min(box.y0, box.y1))
+      const bottom = clampY(origin.top + Math.max(box.y0, box.y1))
+
+      const next: ChartDomain = { ...chartDomain, y: { ...chartDomain.y } }
+      if (right - left >= MIN_BOX_SIZE) {
+        const span = chartDomain.xMax - chartDomain.xMin
+        const t0 = chartDomain.xMin + ((left - rect.left) / rect.width) * span
+        const t1 = chartDomain.xMin + ((right - rect.left) / rect.width) * span
+        const center = (t0 + t1) / 2
+        const half = Math.max(t1 - t0, MIN_ZOOM_SPAN) / 2
+        next.xMin = center - half
+        next.xMax = center + half
+      }
+      const zoomedAxes = bottom - top >= MIN_BOX_SIZE ? area.axes : []
+      for (const axis of zoomedAxes) {
+        const [min, max] = axis.domain
+        const valueAt = (y: number) => max - ((y - rect.top) / rect.height) * (max - min)
+        next.y[axis.id] = { min: valueAt(bottom), max: valueAt(top) }
+      }
+      if (next.xMin === chartDomain.xMin && zoomedAxes.length === 0) return
+
+      recordView()
+      setFollowTail(false)
+      setAxisModes((prev) => ({ ...prev, ...Object.fromEntries(zoomedAxes.map((axis) => [axis.id, "manual"])) }))
+      setChartDomain(next)
+    },
+    [chartDomain, plotAreas, recordView],
   )
 
   const handleMouseUp = useCallback(() => {
+    if (zoomBox) {
+      applyZoomBox(zoomBox)
+      setZoomBox(null)
+    }
+    setMeasureDrag(null)
     setIsDragging(false)
     setDragStart(null)
-  }, [])
+  }, [zoomBox, applyZoomBox])
 
-  const handleDoubleClick = useCallback(() => {
-    if (data.length === 0) return
+  // cursors start a third of the way in from each side of the view
+  const toggleMeasureCursors = () => {
+    if (measureCursors || !chartDomain) {
+      setMeasureCursors(null)
+      return
+    }
+    const third = (chartDomain.xMax - chartDomain.xMin) / 3
+    setMeasureCursors({ a: chartDomain.xMin + third, b: chartDomain.xMax - third })
+  }
 
-    const minT = Math.min(...data.map((d) => d.t))
-    const maxT = Math.max(...data.map((d) => d.t))
+  const measureMarkers = useMemo(
+    (): ChartMarker[] =>
+      measureCursors
+        ? [
+            { t: measureCursors.a, color: MEASURE_COLORS.a, label: "A", dashed: true },
+            { t: measureCursors.b, color: MEASURE_COLORS.b, label: "B", dashed: true },
+          ]
+        : [],
+    [measureCursors],
+  )
 
-    setChartDomain({
-      xMin: minT,
-      xMax: maxT,
-      yMin: 0,
-      yMax: 100,
+  const annotationMarkers = useMemo(
+    (): ChartMarker[] =>
+      annotations.map((a) => ({ t: a.t0, t1: a.t1 ?? undefined, color: a.color, label: a.title })),
+    [annotations],
+  )
+  const chartMarkers = useMemo(() => [...annotationMarkers, ...measureMarkers], [annotationMarkers, measureMarkers])
+
+  // a new annotation covers the measurement cursors when they are out, else marks the middle of the view
+  const openNewAnnotation = () => {
+    if (!chartDomain) return
+    const span = measureCursors
+      ? { t0: Math.min(measureCursors.a, measureCursors.b), t1: Math.max(measureCursors.a, measureCursors.b) }
+      : { t0: (chartDomain.xMin + chartDomain.xMax) / 2, t1: null }
+    setAnnotationEdit({
+      id: null,
+      draft: { ...span, title: "", note: "", color: ANNOTATION_COLORS[annotations.length % ANNOTATION_COLORS.length] },
     })
+  }
+
+  const saveAnnotation = (draft: AnnotationDraft) => {
+    if (annotationEdit?.id) updateAnnotation(annotationEdit.id, draft)
+    else addAnnotation(draft)
+  }
+
+  // centres the view on a flag, keeping the zoom, or fits a range with a little room either side
+  const jumpToAnnotation = (annotation: Annotation) => {
+    if (!chartDomain) return
+    let xMin: number
+    let xMax: number
+    if (annotation.t1 === null) {
+      const half = (chartDomain.xMax - chartDomain.xMin) / 2
+      xMin = annotation.t0 - half
+      xMax = annotation.t0 + half
+    } else {
+      const pad = Math.max((annotation.t1 - annotation.t0) * 0.1, MIN_ZOOM_SPAN / 2)
+      xMin = annotation.t0 - pad
+      xMax = annotation.t1 + pad
+    }
+    recordView()
+    setFollowTail(false)
+    setChartDomain({ ...chartDomain, xMin, xMax })
+  }
+
+  // values at the cursors and the spread between them, from the raw samples in the worker
+  useEffect(() => {
+    if (!measureCursors) {
+      setMeasurements(null)
+      return
+    }
+    let current = true
+    query({
+      type: "measure",
+      a: measureCursors.a,
+      b: measureCursors.b,
+      keys: channels.filter((c) => series[c.key]).map((c) => c.key),
+      interpolation,
+    })
+      .then((result) => {
+        if (current && result) setMeasurements(result)
+      })
+      .catch((error) => console.error("[v0] Error measuring between cursors:", error))
+    return () => {
+      current = false
+    }
+  }, [query, measureCursors, channels, series, interpolation, version])
+
+  const goBack = useCallback(() => {
+    const view = chartDomain && zoomHistory.back(chartDomain)
+    if (!view) return
+    setFollowTail(false)
+    setChartDomain(view)
+  }, [chartDomain, zoomHistory.back])
+
+  const goForward = useCallback(() => {
+    const view = chartDomain && zoomHistory.forward(chartDomain)
+    if (!view) return
+    setFollowTail(false)
+    setChartDomain(view)
+  }, [chartDomain, zoomHistory.forward])
+
+  // Ctrl/Cmd+Z steps back through zoom history, Ctrl/Cmd+Shift+Z or Ctrl+Y forward, unless typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement | null
+      if (target?.closest("input, textarea, [contenteditable=true]")) return
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) goBack()
+      else if ((key === "z" && e.shiftKey) || key === "y") goForward()
+      else return
+      e.preventDefault()
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [goBack, goForward])
+
+  const handleDoubleClick = useCallback(() => {
+    if (!range) return
+
+    const { min: minT, max: maxT } = range
+
+    recordView()
+    setChartDomain((prev) => ({ xMin: minT, xMax: maxT, y: prev?.y ?? {} }))
+    setFollowSpan(FOLLOW_SPAN)
     setFollowTail(true)
-  }, [data])
+  }, [range, recordView])
+
+  // tooltip body shared by the recharts and canvas renderers
+  const renderTooltip = useCallback(
+    (t: number, entries: TooltipEntry[]) => (
+      <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+        <p className="text-sm font-medium mb-2">Time: {formatTime(timeBase, t, timeAxisMode)}</p>
+        {entries.map((entry) => {
+          const channel = channels.find((c) => c.key === entry.key)
+          return (
+            <p key={entry.key} className="text-sm" style={{ color: entry.color }}>
+              {channel
+                ? `${channel.label}: ${formatChannelValue(channel, entry.value)} ${channel.unit}`
+                : `${entry.name}: ${entry.value}`}
+            </p>
+          )
+        })}
+      </div>
+    ),
+    [channels, timeBase, timeAxisMode],
+  )
 
   const CustomTooltip = useMemo(() => {
     return ({ active, payload, label }: any) => {
       if (!active || !payload || !payload.length) return null
-
-      return (
-        <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
-          <p className="text-sm font-medium mb-2">Time: {Number(label).toFixed(2)}s</p>
-          {payload.map((entry: any, index: number) => (
-            <p key={index} className="text-sm" style={{ color: entry.color }}>
-              {entry.name}: {entry.value.toFixed(2)}{" "}
-              {entry.name === "speed" ? "m/s" : entry.name === "current" ? "A" : "°C"}
-            </p>
-          ))}
-        </div>
-      )
+      const entries: TooltipEntry[] = payload.map((entry: any) => ({
+        key: entry.dataKey,
+        name: entry.name,
+        color: entry.color,
+        value: entry.value,
+      }))
+      return renderTooltip(Number(label), entries)
     }
-  }, [])
+  }, [renderTooltip])
 
   const KPICard = ({
-    title,
+    channel,
     icon: Icon,
     metrics,
-    unit,
     threshold,
     enabled,
   }: {
-    title: string
+    channel: Channel
     icon: React.ElementType
     metrics: KPIMetrics
-    unit: string
-    threshold: { max: number; warning: number }
+    threshold?: ChannelThresholds
     enabled: boolean
   }) => {
-    const isWarning = metrics.max >= threshold.warning
-    const isCritical = metrics.max >= threshold.max
+    // the badge covers both sides of the limits, the Max colour only the upper one; an empty window has neither
+    const severities =
+      metrics.count === 0 ? [] : [severityOf(metrics.max, threshold), severityOf(metrics.min, threshold)]
+    const isCritical = severities.includes("critical")
+    const isWarning = !isCritical && severities.includes("warning")
+    const maxSeverity = severities[0] ?? "ok"
 
     return (
       <Card className={`p-4 ${!enabled ? "opacity-50" : ""}`}>
         <div className="flex items-center gap-2 mb-3">
           <Icon className="w-4 h-4 text-muted-foreground" />
-          <h3 className="text-sm font-medium">{title}</h3>
+          <h3 className="text-sm font-medium">{channel.label}</h3>
           {enabled && (isCritical || isWarning) && (
             <Badge variant={isCritical ? "destructive" : "secondary"} className="text-xs">
               {isCritical ? "Critical" : "Warning"}
@@ -708,26 +840,41 @@ console.log('clampedXMax:', clampedXMax)
           <div>
             <div className="text-xs text-muted-foreground mb-1">Avg</div>
             <div className="font-mono">
-              {enabled ? metrics.avg.toFixed(1) : "--"} {unit}
+              {enabled ? formatChannelValue(channel, metrics.avg) : "--"} {channel.unit}
             </div>
           </div>
           <div>
             <div className="text-xs text-muted-foreground mb-1">Max</div>
             <div
               className={`font-mono ${
-                enabled && isCritical ? "text-destructive" : enabled && isWarning ? "text-yellow-500" : ""
+                enabled && maxSeverity === "critical"
+                  ? "text-destructive"
+                  : enabled && maxSeverity === "warning"
+                    ? "text-yellow-500"
+                    : ""
               }`}
             >
-              {enabled ? metrics.max.toFixed(1) : "--"} {unit}
+              {enabled ? formatChannelValue(channel, metrics.max) : "--"} {channel.unit}
             </div>
           </div>
           <div>
             <div className="text-xs text-muted-foreground mb-1">Last</div>
             <div className="font-mono">
-              {enabled ? metrics.last.toFixed(1) : "--"} {unit}
+              {enabled ? formatChannelValue(channel, metrics.last) : "--"} {channel.unit}
             </div>
           </div>
         </div>
+        {threshold && (
+          <div className="mt-3 text-xs text-muted-foreground">
+            Outside warning:{" "}
+            <span className="font-mono text-foreground">
+              {enabled ? `${metrics.timeOutsideWarning.toFixed(1)} s` : "--"}
+            </span>
+            {" · "}
+            <span className="font-mono text-foreground">{enabled ? metrics.exceedances : "--"}</span>{" "}
+            {metrics.exceedances === 1 ? "event" : "events"}
+          </div>
+        )}
       </Card>
     )
   }
@@ -736,67 +883,39 @@ console.log('clampedXMax:', clampedXMax)
     if (playing) {
       pause();
     }else {
-      if (data.length > 0){
+      if (length > 0){
         clear();
         setChartDomain(null);
+        zoomHistory.reset();
       }
+      // the worker resumes the live stream when connected and runs the mock generator otherwise
       play();
       setFollowTail(true);
     }
   }
 
-  const toggleFollowTail = () => {
-    const newValue = !followTail;
-    setFollowTail(newValue);
-
-    if (newValue && data.length > 0) {
-      const minT = Math.min(...data.map((d) => d.t));
-      const maxT = Math.max(...data.map((d) => d.t));
-      setChartDomain({
-        xMin: Math.max(minT, maxT - 30),
-        xMax: maxT,
-        yMin: 0,
-        yMax: 25,
-      });
-    }
+  // back to the live edge, keeping the width of the view being inspected
+  const resumeFollowTail = () => {
+    setFollowTail(true);
+    if (!range || !chartDomain) return;
+    const span = Math.max(chartDomain.xMax - chartDomain.xMin, MIN_ZOOM_SPAN);
+    setFollowSpan(span);
+    recordView();
+    setChartDomain({ ...chartDomain, xMin: Math.max(range.min, range.max - span), xMax: range.max });
   };
 
-  const memoizedKpiData = useMemo((): KPIData => {
-    if (chartData.length === 0) {
-      return {
-        speed: { avg: 0, max: 0, last: 0 },
-        current: { avg: 0, max: 0, last: 0 },
-        temp: { avg: 0, max: 0, last: 0 },
-      }
-    }
-
-    const calculateMetrics = (values: number[]): KPIMetrics => {
-      if (values.length === 0) return { avg: 0, max: 0, last: 0 }
-
-      let sum = 0
-      let max = values[0]
+  // turning follow off freezes the view where it is
+  const toggleFollowTail = () => {
+    if (followTail) setFollowTail(false);
+    else resumeFollowTail();
+  };
 
-      for (let i = 0; i < values.length; i++) {
-        const val = values[i]
-        sum += val
-        if (val > max) max = val
-      }
+  // how far the live edge has run past a frozen view, in seconds
+  const behindLive = !followTail && range && chartDomain ? Math.max(0, range.max - chartDomain.xMax) : 0
 
-      return {
-        avg: sum / values.length,
-        max,
-        last: values[values.length - 1],
-      }
-    }
+  const formatAxisTime = useCallback((t: number) => formatTime(timeBase, t, timeAxisMode), [timeBase, timeAxisMode])
 
-    return {
-      speed: series.speed ? calculateMetrics(chartData.map((d) => d.speed)) : { avg: 0, max: 0, last: 0 },
-      current: series.current
-        ? calculateMetrics(chartData.map((d) => d.current))
-        : { avg: 0, max: 0, last: 0 },
-      temp: series.temp ? calculateMetrics(chartData.map((d) => d.temp)) : { avg: 0, max: 0, last: 0 },
-    }
-  }, [chartData, series])
+  const memoizedKpiData: KPIData = viewport?.kpis ?? {}
 
   const exportToPNG = useCallback(async () => {
     if (!chartContainerRef.current) return
@@ -804,93 +923,92 @@ console.log('clampedXMax:', clampedXMax)
     try {
       const chartElement = chartContainerRef.current
       const rect = chartElement.getBoundingClientRect()
+      const visibleChannels = channels.filter((c) => series[c.key])
 
       const canvas = document.createElement("canvas")
       const ctx = canvas.getContext("2d")
       if (!ctx) return
 
+      const height = rect.height + PNG_LEGEND_HEIGHT
       canvas.width = rect.width * 2
-      canvas.height = rect.height * 2
+      canvas.height = height * 2
       ctx.scale(2, 2)
 
-      ctx.fillStyle = getComputedStyle(document.documentElement).getPropertyValue("--background") || "#000000"
-      ctx.fillRect(0, 0, rect.width, rect.height)
-
-      const svgData = `
-        <svg width="${rect.width}" height="${rect.height}" xmlns="http://www.w3.org/2000/svg">
-          <foreignObject width="100%" height="100%">
-            <div xmlns="http://www.w3.org/1999/xhtml">
-              ${chartElement.innerHTML}
-            </div>
-          </foreignObject>
-        </svg>
-      `
-
-      const img = new Image()
-      img.crossOrigin = "anonymous"
-
-      img.onload = () => {
-        ctx.drawImage(img, 0, 0, rect.width, rect.height)
-
-        canvas.toBlob((blob) => {
-          if (!blob) return
-
-          const url = URL.createObjectURL(blob)
-          const link = document.createElement("a")
-          link.href = url
-          link.download = `telemetry-chart-${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.png`
-          document.body.appendChild(link)
-          link.click()
-          document.body.removeChild(link)
-          URL.revokeObjectURL(url)
-        }, "image/png")
+      // the chart is transparent, so the background is whatever the nearest painted ancestor shows
+      let background = "#ffffff"
+      for (let element: Element | null = chartElement; element; element = element.parentElement) {
+        const color = getComputedStyle(element).backgroundColor
+        if (color && color !== "transparent" && color !== "rgba(0, 0, 0, 0)") {
+          background = color
+          break
+        }
+      }
+      ctx.fillStyle = background
+      ctx.fillRect(0, 0, rect.width, height)
+
+      // the canvas renderer's bitmaps are copied as they are; the recharts SVG is rasterized on its own
+      for (const element of chartElement.querySelectorAll<HTMLCanvasElement | SVGSVGElement>(
+        "canvas, .recharts-wrapper > svg.recharts-surface",
+      )) {
+        const box = element.getBoundingClientRect()
+        const image = element instanceof HTMLCanvasElement ? element : await rasterizeSvg(element)
+        ctx.drawImage(image, box.left - rect.left, box.top - rect.top, box.width, box.height)
       }
 
-      img.onerror = () => {
-        ctx.fillStyle = getComputedStyle(document.documentElement).getPropertyValue("--foreground") || "#ffffff"
-        ctx.font = "14px monospace"
-        ctx.fillText(`Telemetry Export - ${new Date().toLocaleString()}`, 20, 30)
-        ctx.fillText(`Data Points: ${chartData.length}`, 20, 50)
-        ctx.fillText(`Time Range: ${chartDomain?.xMin.toFixed(1)}s - ${chartDomain?.xMax.toFixed(1)}s`, 20, 70)
-
-        canvas.toBlob((blob) => {
-          if (!blob) return
-
-          const url = URL.createObjectURL(blob)
-          const link = document.createElement("a")
-          link.href = url
-          link.download = `telemetry-chart-${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.png`
-          document.body.appendChild(link)
-          link.click()
-          document.body.removeChild(link)
-          URL.revokeObjectURL(url)
-        }, "image/png")
+      // the legends are HTML, so the export gets one of its own
+      ctx.font = "12px sans-serif"
+      ctx.textBaseline = "middle"
+      let x = 8
+      const y = rect.height + PNG_LEGEND_HEIGHT / 2
+      for (const channel of visibleChannels) {
+        ctx.fillStyle = channel.color
+        ctx.fillRect(x, y - 1, 12, 2)
+        const label = formatChannelLabel(channel)
+        ctx.fillText(label, x + 16, y)
+        x += 16 + ctx.measureText(label).width + 16
       }
 
-      const svgBlob = new Blob([svgData], { type: "image/svg+xml" })
-      const svgUrl = URL.createObjectURL(svgBlob)
-      img.src = svgUrl
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+      if (!blob) return
+
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `telemetry-chart-${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.png`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
     } catch (error) {
       console.error("[v0] Error exporting PNG:", error)
     }
-  }, [chartData, chartDomain])
+  }, [channels, series])
 
-  const exportToCSV = useCallback(() => {
-    if (chartData.length === 0) return
+  const exportToCSV = useCallback(async () => {
+    if (!viewport || viewport.length === 0) return
 
     try {
-      const headers = ["Time (s)"]
-      if (series.speed) headers.push("Speed (m/s)")
-      if (series.current) headers.push("Current (A)")
-      if (series.temp) headers.push("Temperature (°C)")
+      // every sample in view, not the decimated rows the chart draws
+      const columns = await query({
+        type: "export",
+        t0: viewportRequest.t0,
+        t1: viewportRequest.t1,
+        keys: channels.map((c) => c.key),
+        interpolation,
+      })
+      if (!columns) return
+      const exportData = columnsToRows(columns)
+      const visibleChannels = channels.filter((c) => series[c.key])
+      const headers = ["Time (s)", "Timestamp", ...visibleChannels.map(formatChannelLabel)]
 
       const rows = [headers.join(",")]
 
-      chartData.forEach((point) => {
-        const row = [point.t.toFixed(3)]
-        if (series.speed) row.push(point.speed.toFixed(3))
-        if (series.current) row.push(point.current.toFixed(3))
-        if (series.temp) row.push(point.temp.toFixed(3))
+      exportData.forEach((point) => {
+        const row = [point.t.toFixed(3), new Date(toEpoch(timeBase, point.t)).toISOString()]
+        for (const channel of visibleChannels) {
+          const value = point[channel.key]
+          row.push(value === undefined ? "" : value.toFixed(3))
+        }
         rows.push(row.join(","))
       })
 
@@ -898,12 +1016,12 @@ console.log('clampedXMax:', clampedXMax)
         `# Telemetry Data Export`,
         `# Generated: ${new Date().toISOString()}`,
         `# Session: ${selectedSession}`,
-        `# Data Points: ${chartData.length}`,
+        `# Session Start: ${new Date(toEpoch(timeBase, 0)).toISOString()}`,
+        `# Data Points: ${exportData.length}`,
+        `# Alignment: ${visibleChannels.map((c) => `${c.key}=${interpolation[c.key] ?? c.interpolation}`).join(", ")}`,
         `# Time Range: ${chartDomain?.xMin.toFixed(3)}s - ${chartDomain?.xMax.toFixed(3)}s`,
-        `# Visible Series: ${Object.entries(series)
-          .filter(([_, visible]) => visible)
-          .map(([name]) => name)
-          .join(", ")}`,
+        `# Visible Series: ${visibleChannels.map((c) => c.key).join(", ")}`,
+        ...annotationsToCsvHeader(annotations),
         `#`,
       ]
 
@@ -919,11 +1037,13 @@ console.log('clampedXMax:', clampedXMax)
       document.body.removeChild(link)
       URL.revokeObjectURL(url)
 
-      console.log(`[v0] Exported ${chartData.length} data points to CSV`)
+      console.log(`[v0] Exported ${exportData.length} data points to CSV`)
     } catch (error) {
       console.error("[v0] Error exporting CSV:", error)
     }
-  }, [chartData, series, selectedSession, chartDomain])
+  }, [query, viewport, viewportRequest, channels, series, interpolation, selectedSession, chartDomain, timeBase, annotations])
+
+  const protocolErrors = totalErrors(protocol)
 
   return (
     <div className="min-h-screen bg-background text-foreground p-4">
@@ -965,168 +1085,717 @@ console.log('clampedXMax:', clampedXMax)
             <div className="flex items-center gap-4">
               <div className="text-sm text-muted-foreground">
 
-                Window: {chartData.length > 0 ? `${chartData.length} points` : "No data"}
+                Window: {viewport && viewport.length > 0 ? `${viewport.length} points` : "No data"}
               </div>
 
+              {session.status === "complete" ? (
+                <Badge variant="secondary" className="gap-1">
+                  <CircleStop className="w-3 h-3" />
+                  {session.reason ? `Complete: ${session.reason}` : "Complete"}
+                </Badge>
+              ) : (
+                <Badge
+                  variant={link.connected ? "default" : link.mock ? "secondary" : "destructive"}
+                  className="gap-1"
+                >
+                  {link.connected ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+                  {link.connected ? `${link.latency}ms` : link.mock ? "Mock Data" : "Disconnected"}
+                </Badge>
+              )}
+
+              <Badge
+                variant={linkStats.dropped > 0 ? "secondary" : "outline"}
+                className="gap-1 font-mono"
+                title={[
+                  `${linkStats.dropped} samples dropped out of ${linkStats.received + linkStats.dropped} expected (${gaps.length} gaps)`,
+                  `${reorderStats.reordered} reordered, ${reorderStats.late} late, ${reorderStats.duplicates} duplicates dropped`,
+                ].join("\n")}
+              >
+                <Radio className="w-3 h-3" />
+                {linkStats.dropped} / {linkStats.received} dropped
+              </Badge>
+
               <Badge
-                variant={wsStatus.connected ? "default" : isMockMode ? "secondary" : "destructive"}
+                variant={protocolErrors > 0 ? "destructive" : "outline"}
                 className="gap-1"
+                title={[
+                  `Payloads: ${protocol.payloads}`,
+                  `Frames received: ${protocol.received}`,
+                  `Accepted: ${protocol.accepted} (${protocol.repaired} repaired)`,
+                  ...Object.entries(protocol.errors).map(([type, count]) => `${type} errors: ${count}`),
+                  protocol.lastError ? `Last error: ${protocol.lastError}` : "",
+                ]
+                  .filter(Boolean)
+                  .join("\n")}
               >
-                {wsStatus.connected ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
-                {wsStatus.connected ? `${wsStatus.latency}ms` : isMockMode ? "Mock Data" : "Disconnected"}
+                {protocolErrors > 0 ? <ShieldAlert className="w-3 h-3" /> : <ShieldCheck className="w-3 h-3" />}
+                {protocolErrors > 0 ? `${protocolErrors} bad frames` : "Protocol OK"}
               </Badge>
             </div>
           </div>
         </Card>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <KPICard
-            title="Speed"
-            icon={TrendingUp}
-            metrics={memoizedKpiData.speed}
-            unit="m/s"
-            threshold={THRESHOLDS.speed}
-            enabled={series.speed}
-          />
-          <KPICard
-            title="Current"
-            icon={Zap}
-            metrics={memoizedKpiData.current}
-            unit="A"
-            threshold={THRESHOLDS.current}
-            enabled={series.current}
-          />
-          <KPICard
-            title="Temperature"
-            icon={Thermometer}
-            metrics={memoizedKpiData.temp}
-            unit="°C"
-            threshold={THRESHOLDS.temp}
-            enabled={series.temp}
-          />
+          {channels.map((channel) => (
+            <KPICard
+              key={channel.key}
+              channel={channel}
+              icon={CHANNEL_ICONS[channel.key] ?? Activity}
+              metrics={memoizedKpiData[channel.key] ?? EMPTY_METRICS}
+              threshold={thresholds[channel.key]}
+              enabled={series[channel.key]}
+            />
+          ))}
+          {channels.length === 0 && (
+            <Card className="p-4 md:col-span-3 text-sm text-muted-foreground">
+              Waiting for the stream to announce its channels…
+            </Card>
+          )}
         </div>
 
-        <Card className="p-4">
-          <div className="h-96 w-full">
-            <div className="flex items-center gap-4 mb-4">
-              <div className="text-sm font-medium">Series:</div>
-              <Button
-                variant={series.speed ? "default" : "outline"}
-                size="sm"
-                onClick={() => toggleSeries("speed")}
-                className="h-6 px-2 text-xs"
-              >
-                Speed
-              </Button>
-              <Button
-                variant={series.current ? "default" : "outline"}
-                size="sm"
-                onClick={() => toggleSeries("current")}
-                className="h-6 px-2 text-xs"
-              >
-                Current
-              </Button>
-              <Button
-                variant={series.temp ? "default" : "outline"}
-                size="sm"
-                onClick={() => toggleSeries("temp")}
-                className="h-6 px-2 text-xs"
-              >
-                Temperature
-              </Button>
+        {session.summary && (
+          <Card className="p-4">
+            <div className="flex items-center gap-2 mb-3 flex-wrap">
+              <Flag className="w-4 h-4 text-muted-foreground" />
+              <h3 className="text-sm font-medium">Session Summary</h3>
+              <span className="text-xs text-muted-foreground">
+                {session.reason ?? "Stream ended"} · {session.summary.samples} samples ·{" "}
+                {session.summary.duration.toFixed(1)}s · ended {session.endedAt?.toLocaleTimeString()}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              {channels.map((channel) => {
+                const metrics = session.summary?.kpis[channel.key] ?? EMPTY_METRICS
+                return (
+                  <div key={channel.key}>
+                    <div className="text-xs text-muted-foreground mb-1" style={{ color: channel.color }}>
+                      {channel.label}
+                    </div>
+                    <div className="font-mono text-xs">
+                      avg {formatChannelValue(channel, metrics.avg)} · max {formatChannelValue(channel, metrics.max)} ·
+                      last {formatChannelValue(channel, metrics.last)} {channel.unit}
+                    </div>
+                  </div>
+                )
+              })}
             </div>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+          <Card className="p-4 lg:col-span-3">
+            <div className="w-full">
+              <div className="flex items-center gap-4 mb-4 flex-wrap">
+                <div className="text-sm font-medium">Series:</div>
+                {channels.map((channel) => (
+                  <Button
+                    key={channel.key}
+                    variant={series[channel.key] ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => toggleSeries(channel.key)}
+                    className="h-6 px-2 text-xs"
+                  >
+                    {channel.label}
+                  </Button>
+                ))}
+
+                <div className="ml-auto flex items-center gap-2">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={channels.length === 0}
+                        className="h-6 px-2 text-xs gap-1"
+                      >
+                        <Spline className="w-3 h-3" />
+                        Alignment
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel className="text-xs">Resample between samples</DropdownMenuLabel>
+                      {channels.map((channel) => (
+                        <DropdownMenuSub key={channel.key}>
+                          <DropdownMenuSubTrigger className="text-xs">
+                            {channel.label}
+                            <span className="ml-auto pl-4 text-muted-foreground">
+                              {(interpolation[channel.key] ?? channel.interpolation) === "hold" ? "Hold" : "Linear"}
+                            </span>
+                          </DropdownMenuSubTrigger>
+                          <DropdownMenuSubContent>
+                            <DropdownMenuRadioGroup
+                              value={interpolation[channel.key] ?? channel.interpolation}
+                              onValueChange={(value) => setInterpolation(channel.key, value as Interpolation)}
+                            >
+                              <DropdownMenuRadioItem value="hold" className="text-xs">
+                                Zero-order hold
+                              </DropdownMenuRadioItem>
+                              <DropdownMenuRadioItem value="linear" className="text-xs">
+                                Linear
+                              </DropdownMenuRadioItem>
+                            </DropdownMenuRadioGroup>
+                          </DropdownMenuSubContent>
+                        </DropdownMenuSub>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    variant={measureCursors ? "default" : "outline"}
+                    size="sm"
+                    onClick={toggleMeasureCursors}
+                    disabled={!chartDomain}
+                    className="h-6 px-2 text-xs gap-1"
+                  >
+                    <Crosshair className="w-3 h-3" />
+                    Cursors
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={openNewAnnotation}
+                    disabled={!chartDomain}
+                    className="h-6 px-2 text-xs gap-1"
+                    title="Annotate the measurement span, or the middle of the view"
+                  >
+                    <StickyNote className="w-3 h-3" />
+                    Annotate
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLimitsOpen(true)}
+                    className="h-6 px-2 text-xs gap-1"
+                    title="Warning and critical limits per vehicle profile"
+                  >
+                    <SlidersHorizontal className="w-3 h-3" />
+                    Limits: {activeProfile}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={goBack}
+                    disabled={!zoomHistory.canGoBack}
+                    className="h-6 px-2 text-xs"
+                    title="Previous view (Ctrl+Z)"
+                  >
+                    <Undo2 className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={goForward}
+                    disabled={!zoomHistory.canGoForward}
+                    className="h-6 px-2 text-xs"
+                    title="Next view (Ctrl+Shift+Z)"
+                  >
+                    <Redo2 className="w-3 h-3" />
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={axes.length === 0}
+                        className="h-6 px-2 text-xs gap-1"
+                      >
+                        <Ruler className="w-3 h-3" />
+                        Y Axes
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel className="text-xs">Range</DropdownMenuLabel>
+                      {axes.map((axis) => (
+                        <DropdownMenuSub key={axis.id}>
+                          <DropdownMenuSubTrigger className="text-xs">
+                            {axis.label}
+                            <span className="ml-auto pl-4 text-muted-foreground">
+                              {AXIS_MODES.find((mode) => mode.value === axis.mode)?.label}
+                            </span>
+                          </DropdownMenuSubTrigger>
+                          <DropdownMenuSubContent>
+                            <DropdownMenuRadioGroup
+                              value={axis.mode}
+                              onValueChange={(value) => setAxisMode(axis.id, value as AxisMode)}
+                            >
+                              {AXIS_MODES.map((mode) => (
+                                <DropdownMenuRadioItem key={mode.value} value={mode.value} className="text-xs">
+                                  {mode.label}
+                                </DropdownMenuRadioItem>
+                              ))}
+                            </DropdownMenuRadioGroup>
+                            {axis.mode === "manual" && (
+                              <div className="flex items-center gap-1 p-2" onKeyDown={(e) => e.stopPropagation()}>
+                                {(["min", "max"] as const).map((bound) => (
+                                  <Input
+                                    key={`${bound}-${axis.domain[bound === "min" ? 0 : 1]}`}
+                                    type="number"
+                                    aria-label={bound}
+                                    placeholder={bound}
+                                    defaultValue={axis.domain[bound === "min" ? 0 : 1]}
+                                    className="h-6 w-20 text-xs"
+                                    onBlur={(e) => {
+                                      const value = Number(e.target.value)
+                                      if (e.target.value === "" || isNaN(value)) return
+                                      setManualRange(axis.id, {
+                                        min: bound === "min" ? value : axis.domain[0],
+                                        max: bound === "max" ? value : axis.domain[1],
+                                      })
+                                    }}
+                                  />
+                                ))}
+                              </div>
+                            )}
+                          </DropdownMenuSubContent>
+                        </DropdownMenuSub>
+                      ))}
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel className="text-xs">Grouping</DropdownMenuLabel>
+                      {channels.map((channel) => (
+                        <DropdownMenuSub key={channel.key}>
+                          <DropdownMenuSubTrigger className="text-xs">
+                            {channel.label}
+                            <span className="ml-auto pl-4 text-muted-foreground">
+                              {axisGroups[channel.key]
+                                ? `with ${channels.find((c) => c.key === axisGroups[channel.key])?.label ?? axisGroups[channel.key]}`
+                                : "Own axis"}
+                            </span>
+                          </DropdownMenuSubTrigger>
+                          <DropdownMenuSubContent>
+                            <DropdownMenuRadioGroup
+                              value={axisGroups[channel.key] ?? ""}
+                              onValueChange={(value) =>
+                                setAxisGroups((prev) => {
+                                  const { [channel.key]: _, ...rest } = prev
+                                  return value ? { ...rest, [channel.key]: value } : rest
+                                })
+                              }
+                            >
+                              <DropdownMenuRadioItem value="" className="text-xs">
+                                Own axis
+                              </DropdownMenuRadioItem>
+                              {channels
+                                .filter((other) => other.key !== channel.key && !axisGroups[other.key])
+                                .map((other) => (
+                                  <DropdownMenuRadioItem key={other.key} value={other.key} className="text-xs">
+                                    Share with {other.label}
+                                  </DropdownMenuRadioItem>
+                                ))}
+                            </DropdownMenuRadioGroup>
+                          </DropdownMenuSubContent>
+                        </DropdownMenuSub>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={markLap}
+                    disabled={length === 0}
+                    className="h-6 px-2 text-xs gap-1"
+                  >
+                    <Timer className="w-3 h-3" />
+                    Mark Lap
+                  </Button>
+                  <Select value={chartLayout} onValueChange={(value) => setChartLayout(value as "overlay" | "stacked")}>
+                    <SelectTrigger size="sm" className="w-28 text-xs" title="Layout">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="overlay">Overlay</SelectItem>
+                      <SelectItem value="stacked">Stacked</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={timeAxisMode} onValueChange={(value) => setTimeAxisMode(value as TimeAxisMode)}>
+                    <SelectTrigger size="sm" className="w-32 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="relative">Relative (s)</SelectItem>
+                      <SelectItem value="lap">Lap time</SelectItem>
+                      <SelectItem value="clock">Time of day</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={decimation} onValueChange={(value) => setDecimation(value as DecimationMode)}>
+                    <SelectTrigger size="sm" className="w-28 text-xs" title="Downsampling">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DECIMATION_MODES.map((mode) => (
+                        <SelectItem key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
 
-            <div
-              ref={chartContainerRef}
-              className="h-80 cursor-crosshair select-none"
-              tabIndex={0} 
-              onWheelCapture={handleWheel}
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseUp}
-              onDoubleClick={handleDoubleClick}
-            >
-              
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
-                  <XAxis
-                    dataKey="t"
-                    type="number"
-                    scale="linear"
-                    domain={chartDomain ? [chartDomain.xMin, chartDomain.xMax] : ["auto", "auto"]}
-                    stroke="hsl(var(--muted-foreground))"
-                    fontSize={12}
-                    tickFormatter={(value) => `${value.toFixed(1)}s`}
+              <div
+                ref={chartContainerRef}
+                className="relative h-80 cursor-crosshair select-none"
+                tabIndex={0} 
+                onWheelCapture={handleWheel}
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseUp}
+                onDoubleClick={handleDoubleClick}
+              >
+                {playing && behindLive >= 1 && (
+                  <Button
+                    size="sm"
+                    onClick={resumeFollowTail}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onDoubleClick={(e) => e.stopPropagation()}
+                    className="absolute right-10 top-2 z-20 h-6 rounded-full px-3 text-xs gap-1 shadow"
+                    title="Jump back to the live edge"
+                  >
+                    <FastForward className="w-3 h-3" />
+                    {Math.round(behindLive)} new seconds
+                  </Button>
+                )}
+                {zoomBox && (
+                  <div
+                    className="pointer-events-none absolute z-10 border border-primary bg-primary/10"
+                    style={{
+                      left: Math.min(zoomBox.x0, zoomBox.x1),
+                      top: Math.min(zoomBox.y0, zoomBox.y1),
+                      width: Math.abs(zoomBox.x1 - zoomBox.x0),
+                      height: Math.abs(zoomBox.y1 - zoomBox.y0),
+                    }}
+                  />
+                )}
+                {chartLayout === "stacked" && viewport && chartDomain ? (
+                  <ChannelStrips
+                    columns={viewport.series}
+                    series={canvasSeries}
+                    axes={axes}
+                    xDomain={[chartDomain.xMin, chartDomain.xMax]}
+                    formatX={formatAxisTime}
+                    cursor={cursorT}
+                    onCursorChange={setCursorT}
+                    markers={chartMarkers}
+                  />
+                ) : canvasMode && viewport && chartDomain ? (
+                  <TimeSeriesCanvas
+                    columns={viewport.series}
+                    series={canvasSeries}
+                    xDomain={[chartDomain.xMin, chartDomain.xMax]}
+                    axes={axes}
+                    formatX={formatAxisTime}
+                    renderTooltip={renderTooltip}
+                    markers={chartMarkers}
+                  />
+                ) : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={renderData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid
+                        fill="transparent"
+                        strokeDasharray="3 3"
+                        stroke="hsl(var(--border))"
+                        opacity={0.3}
+                        yAxisId={axes[0]?.id ?? 0}
+                      />
+                      <XAxis
+                        dataKey="t"
+                        type="number"
+                        scale="linear"
+                        domain={chartDomain ? [chartDomain.xMin, chartDomain.xMax] : ["auto", "auto"]}
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={12}
+                        tickFormatter={formatAxisTime}
+                      />
+                      {axes.length === 0 && <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />}
+                      {axes.map((axis, index) => (
+                        <YAxis
+                          key={axis.id}
+                          yAxisId={axis.id}
+                          orientation={index % 2 === 0 ? "left" : "right"}
+                          stroke={axis.color || "hsl(var(--muted-foreground))"}
+                          fontSize={12}
+                          width={60}
+                          domain={axis.domain}
+                          allowDataOverflow
+                          tickFormatter={(v: number) => String(Number(v.toPrecision(4)))}
+                          label={{
+                            value: axis.label,
+                            angle: -90,
+                            position: index % 2 === 0 ? "insideLeft" : "insideRight",
+                            style: { textAnchor: "middle", fontSize: 12 },
+                          }}
+                        />
+                      ))}
+                      <Tooltip content={<CustomTooltip />} />
+                      {annotations.map((a) =>
+                        a.t1 === null ? (
+                          <ReferenceLine
+                            key={a.id}
+                            x={a.t0}
+                            yAxisId={axes[0]?.id ?? 0}
+                            stroke={a.color}
+                            strokeWidth={1.5}
+                            label={{ value: a.title, position: "insideTopRight", fill: a.color, fontSize: 12 }}
+                          />
+                        ) : (
+                          <ReferenceArea
+                            key={a.id}
+                            x1={a.t0}
+                            x2={a.t1}
+                            yAxisId={axes[0]?.id ?? 0}
+                            fill={a.color}
+                            fillOpacity={0.15}
+                            ifOverflow="hidden"
+                            label={{ value: a.title, position: "insideTopLeft", fill: a.color, fontSize: 12 }}
+                          />
+                        ),
+                      )}
+                      {measureMarkers.map((marker) => (
+                        <ReferenceLine
+                          key={marker.label}
+                          x={marker.t}
+                          yAxisId={axes[0]?.id ?? 0}
+                          stroke={marker.color}
+                          strokeWidth={1.5}
+                          strokeDasharray="4 3"
+                          label={{ value: marker.label, position: "insideTopRight", fill: marker.color, fontSize: 12 }}
+                        />
+                      ))}
+                      <Legend />
+
+                      {/* threshold bands on each channel's axis, and the parts of its trace beyond them shaded */}
+                      {channels
+                        .filter((channel) => series[channel.key] && thresholds[channel.key])
+                        .flatMap((channel) => {
+                          const type =
+                            (interpolation[channel.key] ?? channel.interpolation) === "hold" ? "stepAfter" : "monotone"
+                          return thresholdLines(thresholds[channel.key]).flatMap(({ level, side, value, to }) => [
+                            <ReferenceArea
+                              key={`${channel.key}:${level}:${side}:band`}
+                              yAxisId={axisOf[channel.key]}
+                              y1={value}
+                              y2={to ?? undefined}
+                              fill={SEVERITY_COLORS[level]}
+                              fillOpacity={0.08}
+                              ifOverflow="hidden"
+                            />,
+                            <ReferenceLine
+                              key={`${channel.key}:${level}:${side}:line`}
+                              yAxisId={axisOf[channel.key]}
+                              y={value}
+                              stroke={SEVERITY_COLORS[level]}
+                              strokeDasharray="6 4"
+                              ifOverflow="hidden"
+                            />,
+                            <Area
+                              key={`${channel.key}:${level}:${side}:area`}
+                              yAxisId={axisOf[channel.key]}
+                              type={type}
+                              dataKey={(row: TelemetryPoint) =>
+                                row[channel.key] === undefined
+                                  ? null
+                                  : side === "max"
+                                    ? Math.max(row[channel.key], value)
+                                    : Math.min(row[channel.key], value)
+                              }
+                              baseValue={value}
+                              stroke="none"
+                              fill={SEVERITY_COLORS[level]}
+                              fillOpacity={0.35}
+                              connectNulls={false}
+                              isAnimationActive={false}
+                              tooltipType="none"
+                              legendType="none"
+                            />,
+                          ])
+                        })}
+
+                      {channels
+                        .filter((channel) => series[channel.key])
+                        .map((channel) => (
+                          <Line
+                            key={channel.key}
+                            yAxisId={axisOf[channel.key]}
+                            type={(interpolation[channel.key] ?? channel.interpolation) === "hold" ? "stepAfter" : "monotone"}
+                            dataKey={channel.key}
+                            stroke={channel.color}
+                            strokeWidth={2}
+                            dot={false}
+                            connectNulls={false}
+                            isAnimationActive={false}
+                            name={channel.label}
+                          />
+                        ))}
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+
+              {overview && range && chartDomain && (
+                <div className="mt-2">
+                  <OverviewBrush
+                    columns={overview.series}
+                    series={canvasSeries}
+                    extent={[range.min, range.max]}
+                    view={[chartDomain.xMin, chartDomain.xMax]}
+                    minSpan={MIN_ZOOM_SPAN}
+                    onBrushStart={() => {
+                      recordView()
+                      setFollowTail(false)
+                    }}
+                    onBrush={(xMin, xMax) => setChartDomain((prev) => prev && { ...prev, xMin, xMax })}
+                    markers={annotationMarkers}
                   />
-                  <YAxis 
-  stroke="hsl(var(--muted-foreground))" 
-  fontSize={12} 
-  domain={[0, 25]}  // ← Fixed range so all series are visible
-/>
-                  <Tooltip content={<CustomTooltip />} />
-                  <Legend />
-
-                  {series.speed && (
-                    <Line
-                     type="monotone"
-    dataKey="speed"
-    stroke="#f97316"
-    strokeWidth={2}
-    dot={false}
-    isAnimationActive={false}
-    name="Speed"
-                    />
-                  )}
-
-                  {series.current && (
-                    <Line
-                      type="monotone"
-    dataKey="current"
-    stroke="#06b6d4"
-    strokeWidth={2}
-    dot={false}
-    isAnimationActive={false}
-    name="Current"
-                    />
-                  )}
-
-                  {series.temp && (
-                    <Line
-                      type="monotone"
-    dataKey="temp"
-    stroke="#6366f1"  // ← Blue
-    strokeWidth={2}
-    dot={false}
-    isAnimationActive={false}
-    name="Temperature"
-                    />
-                  )}
-                </LineChart>
-              </ResponsiveContainer>
+                </div>
+              )}
+
+              <div className="text-xs text-muted-foreground mt-2">
+                Wheel: zoom at cursor | Wheel over a Y axis: zoom that axis | Drag: pan | Shift+drag: box zoom |
+                Drag the overview: move or resize the view | Drag A / B: move a measurement cursor |
+                Ctrl+Z / Ctrl+Shift+Z: previous / next view | Double-click: reset view
+              </div>
             </div>
+          </Card>
 
-            <div className="text-xs text-muted-foreground mt-2">
-              Wheel: zoom at cursor | Drag: pan | Double-click: reset view
+          <Card className="p-4">
+            <div className="flex items-center gap-2 mb-3">
+              <StickyNote className="w-4 h-4 text-muted-foreground" />
+              <h3 className="text-sm font-medium">Annotations</h3>
+              <span className="text-xs text-muted-foreground">{annotations.length}</span>
             </div>
-          </div>
-        </Card>
+            {annotations.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Nothing marked yet. Use Annotate to flag a moment, or set cursors first to mark a span.
+              </p>
+            ) : (
+              <ul className="space-y-2 max-h-[28rem] overflow-y-auto">
+                {[...annotations]
+                  .sort((a, b) => a.t0 - b.t0)
+                  .map((a) => (
+                    <li key={a.id} className="group flex items-start gap-2">
+                      <span className="mt-1 h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: a.color }} />
+                      <button
+                        type="button"
+                        onClick={() => jumpToAnnotation(a)}
+                        className="min-w-0 flex-1 text-left"
+                        title="Show on the chart"
+                      >
+                        <div className="truncate text-sm font-medium">{a.title}</div>
+                        <div className="font-mono text-xs text-muted-foreground">
+                          {formatAxisTime(a.t0)}
+                          {a.t1 !== null && ` – ${formatAxisTime(a.t1)}`}
+                        </div>
+                        {a.note && <div className="text-xs text-muted-foreground line-clamp-2">{a.note}</div>}
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => setAnnotationEdit({ id: a.id, draft: a })}
+                        title="Edit"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => removeAnnotation(a.id)}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </Card>
+        </div>
+
+        <AnnotationDialog
+          open={annotationEdit !== null}
+          onOpenChange={(open) => !open && setAnnotationEdit(null)}
+          draft={annotationEdit?.draft ?? EMPTY_ANNOTATION}
+          editing={Boolean(annotationEdit?.id)}
+          onSave={saveAnnotation}
+        />
+
+        <ThresholdSettingsDialog
+          open={limitsOpen}
+          onOpenChange={setLimitsOpen}
+          channels={channels}
+          profiles={profiles}
+          activeProfile={activeProfile}
+          onSave={saveProfile}
+          onRemoveProfile={removeProfile}
+        />
+
+        {measureCursors && (
+          <Card className="p-4">
+            <div className="flex items-center gap-2 mb-3 flex-wrap">
+              <Crosshair className="w-4 h-4 text-muted-foreground" />
+              <h3 className="text-sm font-medium">Measurement</h3>
+              <span className="text-xs text-muted-foreground font-mono">
+                <span style={{ color: MEASURE_COLORS.a }}>A {formatAxisTime(measureCursors.a)}</span> ·{" "}
+                <span style={{ color: MEASURE_COLORS.b }}>B {formatAxisTime(measureCursors.b)}</span> · Δt{" "}
+                {(measureCursors.b - measureCursors.a).toFixed(3)} s
+              </span>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground text-right">
+                  <th className="text-left font-normal pb-1">Channel</th>
+                  <th className="font-normal pb-1">A</th>
+                  <th className="font-normal pb-1">B</th>
+                  <th className="font-normal pb-1">Δ</th>
+                  <th className="font-normal pb-1">Slope /s</th>
+                  <th className="font-normal pb-1">Min</th>
+                  <th className="font-normal pb-1">Max</th>
+                  <th className="font-normal pb-1">Mean</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-right">
+                {channels
+                  .filter((channel) => series[channel.key])
+                  .map((channel) => {
+                    const m = measurements?.[channel.key]
+                    const show = (value: number | null | undefined) =>
+                      value === null || value === undefined ? "--" : formatChannelValue(channel, value)
+                    const delta = m && m.a !== null && m.b !== null ? m.b - m.a : null
+                    const dt = measureCursors.b - measureCursors.a
+                    return (
+                      <tr key={channel.key}>
+                        <td className="text-left font-sans" style={{ color: channel.color }}>
+                          {formatChannelLabel(channel)}
+                        </td>
+                        <td>{show(m?.a)}</td>
+                        <td>{show(m?.b)}</td>
+                        <td>{show(delta)}</td>
+                        <td>{delta === null || dt === 0 ? "--" : (delta / dt).toFixed(channel.precision + 1)}</td>
+                        <td>{show(m?.min)}</td>
+                        <td>{show(m?.max)}</td>
+                        <td>{show(m?.mean)}</td>
+                      </tr>
+                    )
+                  })}
+              </tbody>
+            </table>
+          </Card>
+        )}
 
         <Card className="p-4">
           <div className="flex items-center justify-between text-sm">
             <div className="text-muted-foreground">
-              Points: {data.length} / {MAX_BUFFER_SIZE} | Rendered: {chartData.length}
+              Points: {length} / {MAX_BUFFER_SIZE} | Rendered: {viewport?.points ?? 0}
             </div>
             <div className="text-muted-foreground">
-              Last Update: {wsStatus.lastUpdate?.toLocaleTimeString() || "Never"}
+              Last Update: {link.lastUpdate?.toLocaleTimeString() || "Never"}
             </div>
             <div className="flex items-center gap-2">
               <Button
                 variant="outline"
                 size="sm"
                 onClick={exportToPNG}
-                disabled={chartData.length === 0}
+                disabled={renderData.length === 0}
                 className="h-8 px-3 text-xs gap-1 bg-transparent"
               >
                 <FileImage className="w-3 h-3" />
@@ -1136,7 +1805,7 @@ console.log('clampedXMax:', clampedXMax)
                 variant="outline"
                 size="sm"
                 onClick={exportToCSV}
-                disabled={chartData.length === 0}
+                disabled={renderData.length === 0}
                 className="h-8 px-3 text-xs gap-1 bg-transparent"
               >
                 <FileText className="w-3 h-3" />
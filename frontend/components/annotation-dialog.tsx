@@ -0,0 +1,167 @@
+"use client"
+
+import { useEffect } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { ANNOTATION_COLORS, type Annotation } from "@/lib/telemetry/annotations"
+
+const isTime = (value: string) => value.trim() !== "" && Number.isFinite(Number(value))
+
+// times are edited as text so the end can be left empty for a single-instant flag
+const annotationSchema = z
+  .object({
+    title: z.string().trim().min(1, "Give the annotation a title"),
+    note: z.string(),
+    color: z.string(),
+    start: z.string().refine(isTime, "Enter a time in seconds"),
+    end: z.string().refine((value) => value.trim() === "" || isTime(value), "Enter a time in seconds, or leave empty"),
+  })
+  .refine((values) => values.end.trim() === "" || Number(values.end) > Number(values.start), {
+    message: "End must be after start",
+    path: ["end"],
+  })
+
+type AnnotationFormValues = z.infer<typeof annotationSchema>
+
+export type AnnotationDraft = Omit<Annotation, "id">
+
+interface AnnotationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  draft: AnnotationDraft // what the form starts from each time it opens
+  editing: boolean
+  onSave: (annotation: AnnotationDraft) => void
+}
+
+const toFormValues = (draft: AnnotationDraft): AnnotationFormValues => ({
+  title: draft.title,
+  note: draft.note,
+  color: draft.color,
+  start: draft.t0.toFixed(3),
+  end: draft.t1 === null ? "" : draft.t1.toFixed(3),
+})
+
+export function AnnotationDialog({ open, onOpenChange, draft, editing, onSave }: AnnotationDialogProps) {
+  const form = useForm<AnnotationFormValues>({
+    resolver: zodResolver(annotationSchema),
+    defaultValues: toFormValues(draft),
+  })
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(draft))
+  }, [open, draft, form])
+
+  const submit = (values: AnnotationFormValues) => {
+    onSave({
+      title: values.title.trim(),
+      note: values.note.trim(),
+      color: values.color,
+      t0: Number(values.start),
+      t1: values.end.trim() === "" ? null : Number(values.end),
+    })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{editing ? "Edit annotation" : "Add annotation"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(submit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Pit in" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="start"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start (s)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="end"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End (s, optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" placeholder="Single instant" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Color</FormLabel>
+                  <div className="flex gap-2">
+                    {ANNOTATION_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        aria-label={color}
+                        onClick={() => field.onChange(color)}
+                        className={`h-6 w-6 rounded-full border-2 ${
+                          field.value === color ? "border-foreground" : "border-transparent"
+                        }`}
+                        style={{ backgroundColor: color }}
+                      />
+                    ))}
+                  </div>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { TimeSeriesCanvas, type CanvasSeries, type ChartMarker } from "@/components/time-series-canvas"
+import type { Axis } from "@/lib/telemetry/axes"
+import { formatChannelValue } from "@/lib/telemetry/channels"
+import { channelValueAt, type SeriesColumns } from "@/lib/telemetry/columns"
+
+interface ChannelStripsProps {
+  columns: SeriesColumns
+  series: CanvasSeries[]
+  axes: Axis[] // one strip per axis, so grouped channels share a strip
+  xDomain: [number, number]
+  formatX: (t: number) => string
+  cursor: number | null
+  onCursorChange: (t: number | null) => void
+  markers?: ChartMarker[]
+}
+
+// Stacked strip charts, one per Y axis, over the same X domain and the same columns. The hover cursor is owned
+// by the caller so it lines up across every strip, and each strip names the values under it in its header.
+export function ChannelStrips({
+  columns,
+  series,
+  axes,
+  xDomain,
+  formatX,
+  cursor,
+  onCursorChange,
+  markers,
+}: ChannelStripsProps) {
+  return (
+    <div className="flex h-full w-full flex-col gap-1">
+      {axes.map((axis, i) => {
+        const strip = series.filter((s) => s.axisId === axis.id)
+        return (
+          <div key={axis.id} className="flex min-h-0 flex-1 flex-col">
+            <div className="flex gap-4 px-1 text-xs">
+              {strip.map(({ channel, interpolation }) => {
+                const data = columns[channel.key]
+                const value = cursor === null || !data ? NaN : channelValueAt(data, cursor, interpolation)
+                return (
+                  <span key={channel.key} className="flex items-center gap-1" style={{ color: channel.color }}>
+                    <span className="inline-block h-0.5 w-3" style={{ backgroundColor: channel.color }} />
+                    {channel.label}
+                    <span className="font-mono text-foreground">
+                      {Number.isNaN(value) ? "--" : formatChannelValue(channel, value)} {channel.unit}
+                    </span>
+                  </span>
+                )
+              })}
+            </div>
+            <div className="min-h-0 flex-1">
+              <TimeSeriesCanvas
+                columns={columns}
+                series={strip}
+                xDomain={xDomain}
+                axes={[axis]}
+                formatX={formatX}
+                cursor={cursor}
+                onCursorChange={onCursorChange}
+                xLabels={i === axes.length - 1}
+                legend={false}
+                markers={markers}
+              />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
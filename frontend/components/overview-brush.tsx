@@ -0,0 +1,170 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import type { CanvasSeries, ChartMarker } from "@/components/time-series-canvas"
+import type { SeriesColumns } from "@/lib/telemetry/columns"
+
+interface OverviewBrushProps {
+  columns: SeriesColumns // the whole session at low resolution
+  series: CanvasSeries[]
+  extent: [number, number] // time span the strip covers
+  view: [number, number] // the main chart's X domain, drawn as the brush
+  minSpan: number
+  onBrushStart: () => void
+  onBrush: (xMin: number, xMax: number) => void
+  markers?: ChartMarker[] // flags and spans drawn behind the traces
+}
+
+type DragMode = "move" | "left" | "right"
+
+// px either side of a brush edge that grabs the edge rather than the body
+const HANDLE_WIDTH = 6
+
+// A thin strip with every drawn channel over the whole session, each scaled to its own range so they all
+// fill the height, and the main chart's viewport as a brush that can be dragged, resized or re-centred.
+export function OverviewBrush({
+  columns,
+  series,
+  extent,
+  view,
+  minSpan,
+  onBrushStart,
+  onBrush,
+  markers,
+}: OverviewBrushProps) {
+  const wrapperRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [drag, setDrag] = useState<{ mode: DragMode; x: number; view: [number, number] } | null>(null)
+
+  useEffect(() => {
+    const element = wrapperRef.current
+    if (!element) return
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: Math.floor(entry.contentRect.width), height: Math.floor(entry.contentRect.height) })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  const [e0, e1] = extent
+  const span = e1 - e0 || 1
+  const toX = (t: number) => ((t - e0) / span) * size.width
+  const toT = (x: number) => e0 + (x / (size.width || 1)) * span
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || size.width === 0) return
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = size.width * dpr
+    canvas.height = size.height * dpr
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, size.width, size.height)
+    ctx.lineWidth = 1
+    for (const marker of markers ?? []) {
+      const x = toX(marker.t)
+      ctx.fillStyle = marker.color
+      ctx.globalAlpha = marker.t1 === undefined ? 0.8 : 0.2
+      ctx.fillRect(x, 0, marker.t1 === undefined ? 2 : Math.max(2, toX(marker.t1) - x), size.height)
+    }
+    ctx.globalAlpha = 1
+    for (const { channel } of series) {
+      const data = columns[channel.key]
+      if (!data) continue
+      const { t, v: values } = data
+      let min = Infinity
+      let max = -Infinity
+      for (const value of values) {
+        if (value < min) min = value
+        if (value > max) max = value
+      }
+      if (!(min <= max)) continue
+      const toY = (v: number) => size.height - 2 - ((v - min) / (max - min || 1)) * (size.height - 4)
+      ctx.strokeStyle = channel.color
+      ctx.globalAlpha = 0.7
+      ctx.beginPath()
+      let drawing = false
+      for (let i = 0; i < t.length; i++) {
+        if (Number.isNaN(values[i])) {
+          drawing = false
+          continue
+        }
+        if (drawing) ctx.lineTo(toX(t[i]), toY(values[i]))
+        else ctx.moveTo(toX(t[i]), toY(values[i]))
+        drawing = true
+      }
+      ctx.stroke()
+    }
+    ctx.globalAlpha = 1
+  }, [columns, series, size, e0, e1, markers])
+
+  // keeps [xMin, xMax] inside the session and at least minSpan wide
+  const clampView = (xMin: number, xMax: number): [number, number] => {
+    const width = Math.min(Math.max(xMax - xMin, minSpan), span)
+    const start = Math.min(Math.max(xMin, e0), e1 - width)
+    return [start, start + width]
+  }
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left
+    const left = toX(view[0])
+    const right = toX(view[1])
+    let mode: DragMode
+    let start = view
+    if (Math.abs(x - left) <= HANDLE_WIDTH) mode = "left"
+    else if (Math.abs(x - right) <= HANDLE_WIDTH) mode = "right"
+    else if (x > left && x < right) mode = "move"
+    else {
+      // a click outside the brush centres it there and keeps dragging it
+      const half = (view[1] - view[0]) / 2
+      start = clampView(toT(x) - half, toT(x) + half)
+      mode = "move"
+    }
+    e.currentTarget.setPointerCapture(e.pointerId)
+    onBrushStart()
+    if (start !== view) onBrush(start[0], start[1])
+    setDrag({ mode, x, view: start })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left
+    const dt = toT(x) - toT(drag.x)
+    const [v0, v1] = drag.view
+    let next: [number, number]
+    if (drag.mode === "move") next = clampView(v0 + dt, v1 + dt)
+    else if (drag.mode === "left") next = clampView(Math.min(v0 + dt, v1 - minSpan), v1)
+    else next = clampView(v0, Math.max(v1 + dt, v0 + minSpan))
+    onBrush(next[0], next[1])
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId)
+    setDrag(null)
+  }
+
+  const brushLeft = Math.max(0, toX(view[0]))
+  const brushRight = Math.min(size.width, toX(view[1]))
+
+  return (
+    <div
+      ref={wrapperRef}
+      className="relative h-12 w-full cursor-pointer select-none rounded border border-border"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+      {size.width > 0 && (
+        <div
+          className="pointer-events-none absolute inset-y-0 border-x-2 border-primary bg-primary/15"
+          style={{ left: brushLeft, width: Math.max(2, brushRight - brushLeft) }}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,331 @@
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Download, Trash2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { formatChannelLabel, type Channel } from "@/lib/telemetry/channels"
+import {
+  parseThresholdFile,
+  thresholdsToJson,
+  type Limits,
+  type ThresholdConfig,
+} from "@/lib/telemetry/thresholds"
+
+const LIMIT_FIELDS = ["warningMin", "warningMax", "criticalMin", "criticalMax"] as const
+type LimitField = (typeof LIMIT_FIELDS)[number]
+
+const LIMIT_LABELS: Record<LimitField, string> = {
+  warningMin: "Warning min",
+  warningMax: "Warning max",
+  criticalMin: "Critical min",
+  criticalMax: "Critical max",
+}
+
+const isLimit = (value: string) => value.trim() === "" || Number.isFinite(Number(value))
+const toLimit = (value: string) => (value.trim() === "" ? null : Number(value))
+
+// limits are edited as text so any of them can be left empty to leave that side unchecked
+const limitSchema = z.string().refine(isLimit, "Enter a number or leave empty")
+
+const rowSchema = z
+  .object({
+    key: z.string(),
+    warningMin: limitSchema,
+    warningMax: limitSchema,
+    criticalMin: limitSchema,
+    criticalMax: limitSchema,
+  })
+  .superRefine((row, ctx) => {
+    const limit = (field: LimitField) => (isLimit(row[field]) ? toLimit(row[field]) : null)
+    // each pair that is set must be in order: critical min ≤ warning min < warning max ≤ critical max
+    const order: [low: LimitField, high: LimitField, strict: boolean, message: string][] = [
+      ["warningMin", "warningMax", true, "Must be above the warning min"],
+      ["criticalMin", "criticalMax", true, "Must be above the critical min"],
+      ["criticalMin", "warningMin", false, "Must not be below the critical min"],
+      ["warningMax", "criticalMax", false, "Must not be below the warning max"],
+    ]
+    for (const [low, high, strict, message] of order) {
+      const a = limit(low)
+      const b = limit(high)
+      if (a === null || b === null || (strict ? a < b : a <= b)) continue
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [high] })
+    }
+  })
+
+const settingsSchema = z.object({
+  profile: z.string().trim().min(1, "Name the profile"),
+  channels: z.array(rowSchema),
+})
+
+type SettingsFormValues = z.infer<typeof settingsSchema>
+
+interface ThresholdSettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  channels: Channel[]
+  profiles: Record<string, ThresholdConfig>
+  activeProfile: string
+  onSave: (profile: string, thresholds: ThresholdConfig) => void
+  onRemoveProfile: (profile: string) => void
+}
+
+const formatLimit = (value: number | null) => (value === null ? "" : String(value))
+
+// one row per channel the stream announced, then any the profile has limits for that this stream doesn't carry
+function toFormValues(profile: string, thresholds: ThresholdConfig, channels: Channel[]): SettingsFormValues {
+  const keys = [...channels.map((c) => c.key), ...Object.keys(thresholds).filter((k) => !channels.some((c) => c.key === k))]
+  return {
+    profile,
+    channels: keys.map((key) => {
+      const t = thresholds[key]
+      return {
+        key,
+        warningMin: formatLimit(t?.warning.min ?? null),
+        warningMax: formatLimit(t?.warning.max ?? null),
+        criticalMin: formatLimit(t?.critical.min ?? null),
+        criticalMax: formatLimit(t?.critical.max ?? null),
+      }
+    }),
+  }
+}
+
+// channels with every limit left empty are dropped, so they go unchecked
+function fromFormValues(values: SettingsFormValues): ThresholdConfig {
+  const thresholds: ThresholdConfig = {}
+  for (const row of values.channels) {
+    const warning: Limits = { min: toLimit(row.warningMin), max: toLimit(row.warningMax) }
+    const critical: Limits = { min: toLimit(row.criticalMin), max: toLimit(row.criticalMax) }
+    if ([warning.min, warning.max, critical.min, critical.max].every((v) => v === null)) continue
+    thresholds[row.key] = { warning, critical }
+  }
+  return thresholds
+}
+
+// Edits the warning and critical limits of one vehicle profile at a time. Saving under a new name adds a profile;
+// limits files are imported into the form for review rather than saved straight away.
+export function ThresholdSettingsDialog({
+  open,
+  onOpenChange,
+  channels,
+  profiles,
+  activeProfile,
+  onSave,
+  onRemoveProfile,
+}: ThresholdSettingsDialogProps) {
+  const form = useForm<SettingsFormValues>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: { profile: activeProfile, channels: [] },
+  })
+  const { fields } = useFieldArray({ control: form.control, name: "channels" })
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  // the saved profile the form was loaded from, if any
+  const [source, setSource] = useState<string | null>(activeProfile)
+
+  // read through a ref so snapshots arriving while the dialog is open don't wipe the edits
+  const channelsRef = useRef(channels)
+  channelsRef.current = channels
+
+  const loadProfile = useCallback(
+    (name: string) => {
+      form.reset(toFormValues(name, profiles[name] ?? {}, channelsRef.current))
+      setSource(name)
+      setImportError(null)
+    },
+    [form, profiles],
+  )
+
+  useEffect(() => {
+    if (open) loadProfile(activeProfile)
+  }, [open, activeProfile, loadProfile])
+
+  const label = (key: string) => {
+    const channel = channels.find((c) => c.key === key)
+    return channel ? formatChannelLabel(channel) : key
+  }
+
+  const submit = (values: SettingsFormValues) => {
+    onSave(values.profile.trim(), fromFormValues(values))
+    onOpenChange(false)
+  }
+
+  const exportFile = (values: SettingsFormValues) => {
+    try {
+      const profile = values.profile.trim()
+      const blob = new Blob([thresholdsToJson(profile, fromFormValues(values))], { type: "application/json" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `telemetry-limits-${profile.replace(/[^\w-]+/g, "-").toLowerCase()}.json`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      console.log(`[v0] Exported limits for profile ${profile}`)
+    } catch (error) {
+      console.error("[v0] Error exporting limits:", error)
+    }
+  }
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    try {
+      const { profile, thresholds } = parseThresholdFile(await file.text())
+      form.reset(toFormValues(profile, thresholds, channelsRef.current))
+      setSource(null)
+      setImportError(null)
+    } catch (error) {
+      console.error("[v0] Error importing limits:", error)
+      setImportError(error instanceof Error ? error.message : "Could not read the file")
+    }
+  }
+
+  const removeSource = () => {
+    // the changed profiles reload the form from the active one through the effect above
+    if (source) onRemoveProfile(source)
+  }
+
+  const profileNames = Object.keys(profiles)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Limits</DialogTitle>
+          <DialogDescription>
+            Warning and critical limits per channel for each vehicle. Leave a limit empty to leave that side unchecked.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(submit)} className="space-y-4">
+            <div className="flex items-start gap-2">
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">Saved profiles</div>
+                <Select value={source ?? ""} onValueChange={loadProfile}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Imported" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profileNames.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <FormField
+                control={form.control}
+                name="profile"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>Profile name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Car 12" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={removeSource}
+                className="mt-[22px]"
+                disabled={!source || profileNames.length <= 1}
+                title="Delete this saved profile"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left font-normal pb-2">Channel</th>
+                    {LIMIT_FIELDS.map((name) => (
+                      <th key={name} className="text-left font-normal pb-2 px-1">
+                        {LIMIT_LABELS[name]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map((row, index) => (
+                    <tr key={row.id} className="align-top">
+                      <td className="py-1 pr-2 pt-3">{label(row.key)}</td>
+                      {LIMIT_FIELDS.map((name) => (
+                        <td key={name} className="py-1 px-1">
+                          <FormField
+                            control={form.control}
+                            name={`channels.${index}.${name}`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input type="number" step="any" aria-label={`${row.key} ${LIMIT_LABELS[name]}`} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  {fields.length === 0 && (
+                    <tr>
+                      <td colSpan={LIMIT_FIELDS.length + 1} className="py-2 text-muted-foreground">
+                        Waiting for the stream to announce its channels…
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {importError && <p className="text-sm text-destructive">{importError}</p>}
+
+            <DialogFooter className="sm:justify-between">
+              <div className="flex gap-2">
+                <input
+                  ref={fileRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={importFile}
+                />
+                <Button type="button" variant="outline" className="gap-2" onClick={() => fileRef.current?.click()}>
+                  <Upload className="w-4 h-4" />
+                  Import
+                </Button>
+                <Button type="button" variant="outline" className="gap-2" onClick={form.handleSubmit(exportFile)}>
+                  <Download className="w-4 h-4" />
+                  Export
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Save and apply</Button>
+              </div>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,409 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState, type ReactNode } from "react"
+import type { Interpolation } from "@/lib/telemetry/align"
+import { AXIS_WIDTH, type Axis } from "@/lib/telemetry/axes"
+import type { Channel } from "@/lib/telemetry/channels"
+import { channelValueAt, type SeriesColumns } from "@/lib/telemetry/columns"
+import { SEVERITY_COLORS, thresholdLines, type ChannelThresholds } from "@/lib/telemetry/thresholds"
+
+// one line in a tooltip, shared with the recharts fallback
+export interface TooltipEntry {
+  key: string
+  name: string
+  color: string
+  value: number
+}
+
+export interface CanvasSeries {
+  channel: Channel
+  interpolation: Interpolation
+  axisId: string
+  thresholds?: ChannelThresholds // drawn as bands on the series' axis, with the trace shaded where it crosses them
+}
+
+// a labelled vertical line at t, such as a measurement cursor, or a shaded span up to t1
+export interface ChartMarker {
+  t: number
+  t1?: number
+  color: string
+  label: string
+  dashed?: boolean
+}
+
+interface TimeSeriesCanvasProps {
+  columns: SeriesColumns
+  series: CanvasSeries[]
+  xDomain: [number, number]
+  axes: Axis[] // alternately left and right of the plot, the first one drawing the grid
+  formatX: (t: number) => string
+  renderTooltip?: (t: number, entries: TooltipEntry[]) => ReactNode
+  // a cursor time shared with other charts; when given it replaces the chart's own hover position
+  cursor?: number | null
+  onCursorChange?: (t: number | null) => void
+  xLabels?: boolean // tick labels under the plot; stacked panels only label the bottom one
+  legend?: boolean
+  markers?: ChartMarker[]
+}
+
+// room for the X axis, close to what the recharts chart leaves; each Y axis takes AXIS_WIDTH on its side
+const MARGIN = { top: 5, right: 30, bottom: 24, bottomUnlabelled: 4 }
+const TICK_COUNT = 6
+const FONT = "12px sans-serif"
+const NO_MARKERS: ChartMarker[] = []
+const BAND_ALPHA = 0.08
+const EXCEEDANCE_ALPHA = 0.35
+
+// round tick values covering [min, max]
+function niceTicks(min: number, max: number, count: number): number[] {
+  const span = max - min
+  if (!(span > 0)) return [min]
+  const raw = span / count
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)))
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= raw) ?? raw
+  const ticks: number[] = []
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) ticks.push(v)
+  return ticks
+}
+
+const cssColor = (element: Element, name: string, fallback: string) =>
+  getComputedStyle(element).getPropertyValue(name).trim() || fallback
+
+// Draws time series straight from column arrays onto a canvas, so the cost is one path per channel however
+// many points it has. Hover state lives on a second canvas on top, so moving the cursor never redraws traces.
+// Zoom and pan are left to the caller, which owns the domain; this only maps it to pixels.
+export function TimeSeriesCanvas({
+  columns,
+  series,
+  xDomain,
+  axes,
+  formatX,
+  renderTooltip,
+  cursor,
+  onCursorChange,
+  xLabels = true,
+  legend = true,
+  markers = NO_MARKERS,
+}: TimeSeriesCanvasProps) {
+  const wrapperRef = useRef<HTMLDivElement>(null)
+  const traceRef = useRef<HTMLCanvasElement>(null)
+  const overlayRef = useRef<HTMLCanvasElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  // where the pointer is over this chart, for placing the tooltip
+  const [hover, setHover] = useState<{ x: number; y: number; t: number } | null>(null)
+
+  useEffect(() => {
+    const element = wrapperRef.current
+    if (!element) return
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: Math.floor(entry.contentRect.width), height: Math.floor(entry.contentRect.height) })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  const left = Math.max(1, Math.ceil(axes.length / 2)) * AXIS_WIDTH
+  const right = Math.max(MARGIN.right, Math.floor(axes.length / 2) * AXIS_WIDTH)
+  const plot = {
+    left,
+    top: MARGIN.top,
+    width: Math.max(1, size.width - left - right),
+    height: Math.max(1, size.height - MARGIN.top - (xLabels ? MARGIN.bottom : MARGIN.bottomUnlabelled)),
+  }
+  const [x0, x1] = xDomain
+  const toX = (t: number) => plot.left + ((t - x0) / (x1 - x0 || 1)) * plot.width
+  const domains = new Map(axes.map((axis) => [axis.id, axis.domain]))
+  const toY = (axisId: string, v: number) => {
+    const [y0, y1] = domains.get(axisId) ?? [0, 1]
+    return plot.top + (1 - (v - y0) / (y1 - y0 || 1)) * plot.height
+  }
+
+  // traces, grid and axes, once per animation frame at most
+  useEffect(() => {
+    const canvas = traceRef.current
+    if (!canvas || size.width === 0) return
+    const frame = requestAnimationFrame(() => {
+      const dpr = window.devicePixelRatio || 1
+      canvas.width = size.width * dpr
+      canvas.height = size.height * dpr
+      const ctx = canvas.getContext("2d")
+      if (!ctx) return
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+      ctx.clearRect(0, 0, size.width, size.height)
+
+      const border = cssColor(canvas, "--border", "#e5e5e5")
+      const muted = cssColor(canvas, "--muted-foreground", "#737373")
+      ctx.font = FONT
+      ctx.fillStyle = muted
+      ctx.strokeStyle = border
+      ctx.lineWidth = 1
+      ctx.setLineDash([3, 3])
+
+      ctx.textAlign = "center"
+      ctx.textBaseline = "top"
+      for (const t of niceTicks(x0, x1, TICK_COUNT)) {
+        const x = toX(t)
+        ctx.beginPath()
+        ctx.moveTo(x, plot.top)
+        ctx.lineTo(x, plot.top + plot.height)
+        ctx.stroke()
+        if (xLabels) ctx.fillText(formatX(t), x, plot.top + plot.height + 6)
+      }
+      axes.forEach((axis, index) => {
+        const onLeft = index % 2 === 0
+        const slot = Math.floor(index / 2)
+        // the edge of the plot the axis line sits on, pushed outwards by the axes drawn before it
+        const edge = onLeft ? plot.left - slot * AXIS_WIDTH : plot.left + plot.width + slot * AXIS_WIDTH
+        const direction = onLeft ? -1 : 1
+        ctx.fillStyle = axis.color || muted
+        ctx.textAlign = onLeft ? "right" : "left"
+        ctx.textBaseline = "middle"
+        for (const v of niceTicks(axis.domain[0], axis.domain[1], TICK_COUNT)) {
+          const y = toY(axis.id, v)
+          if (index === 0) {
+            ctx.beginPath()
+            ctx.moveTo(plot.left, y)
+            ctx.lineTo(plot.left + plot.width, y)
+            ctx.stroke()
+          }
+          ctx.fillText(String(Number(v.toPrecision(4))), edge + direction * 6, y)
+        }
+        ctx.save()
+        ctx.translate(edge + direction * (AXIS_WIDTH - 8), plot.top + plot.height / 2)
+        ctx.rotate(-Math.PI / 2)
+        ctx.textAlign = "center"
+        ctx.textBaseline = onLeft ? "top" : "bottom"
+        ctx.fillText(axis.label, 0, 0)
+        ctx.restore()
+      })
+      ctx.fillStyle = muted
+      ctx.setLineDash([])
+
+      ctx.save()
+      ctx.beginPath()
+      ctx.rect(plot.left, plot.top, plot.width, plot.height)
+      ctx.clip()
+      const plotBottom = plot.top + plot.height
+      // the part of the plot beyond a limit's line, towards the top for upper limits and the bottom for lower ones
+      const beyond = (side: "min" | "max", y: number, to: number) =>
+        side === "max" ? [to, y - to] : [y, to - y]
+
+      // threshold bands behind every trace: faint from each warning limit out to critical, and beyond critical
+      ctx.lineWidth = 1
+      for (const { axisId, thresholds } of series) {
+        if (!thresholds) continue
+        for (const { level, side, value, to } of thresholdLines(thresholds)) {
+          const y = toY(axisId, value)
+          const edge = to !== null ? toY(axisId, to) : side === "max" ? plot.top : plotBottom
+          const [top, height] = beyond(side, y, edge)
+          ctx.fillStyle = SEVERITY_COLORS[level]
+          ctx.globalAlpha = BAND_ALPHA
+          ctx.fillRect(plot.left, top, plot.width, height)
+          ctx.globalAlpha = 1
+          ctx.strokeStyle = SEVERITY_COLORS[level]
+          ctx.setLineDash([6, 4])
+          ctx.beginPath()
+          ctx.moveTo(plot.left, y)
+          ctx.lineTo(plot.left + plot.width, y)
+          ctx.stroke()
+        }
+      }
+      ctx.setLineDash([])
+
+      ctx.lineWidth = 1.5
+      ctx.lineJoin = "round"
+      for (const { channel, interpolation, axisId, thresholds } of series) {
+        const data = columns[channel.key]
+        if (!data) continue
+        const { t, v: values } = data
+        const hold = interpolation === "hold"
+        const trace = new Path2D()
+        // each unbroken run, closed onto a limit's line for shading the parts beyond it
+        const runs: { path: Path2D; x0: number; x1: number }[] = []
+        let run: (typeof runs)[number] | null = null
+        let prevY = 0
+        for (let i = 0; i < t.length; i++) {
+          const value = values[i]
+          // NaN rows are gap breaks or rows before the channel's first sample
+          if (Number.isNaN(value)) {
+            run = null
+            continue
+          }
+          const x = toX(t[i])
+          const y = toY(axisId, value)
+          if (!run) {
+            trace.moveTo(x, y)
+            run = { path: new Path2D(), x0: x, x1: x }
+            run.path.moveTo(x, y)
+            runs.push(run)
+          } else {
+            if (hold) {
+              trace.lineTo(x, prevY)
+              run.path.lineTo(x, prevY)
+            }
+            trace.lineTo(x, y)
+            run.path.lineTo(x, y)
+            run.x1 = x
+          }
+          prevY = y
+        }
+
+        for (const { level, side, value } of thresholds ? thresholdLines(thresholds) : []) {
+          const levelY = toY(axisId, value)
+          const [top, height] = beyond(side, levelY, side === "max" ? plot.top : plotBottom)
+          if (height <= 0) continue
+          ctx.save()
+          ctx.beginPath()
+          ctx.rect(plot.left, top, plot.width, height)
+          ctx.clip()
+          ctx.globalAlpha = EXCEEDANCE_ALPHA
+          ctx.fillStyle = SEVERITY_COLORS[level]
+          for (const { path, x0: runStart, x1: runEnd } of runs) {
+            const area = new Path2D(path)
+            area.lineTo(runEnd, levelY)
+            area.lineTo(runStart, levelY)
+            area.closePath()
+            ctx.fill(area)
+          }
+          ctx.restore()
+        }
+
+        ctx.strokeStyle = channel.color
+        ctx.stroke(trace)
+      }
+      ctx.restore()
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [columns, series, size, x0, x1, axes, formatX, xLabels])
+
+  const cursorT = cursor !== undefined ? cursor : (hover?.t ?? null)
+  // each channel's value under the cursor, read off its own samples the way its line is drawn
+  const entries: (TooltipEntry & { axisId: string })[] = []
+  if (cursorT !== null) {
+    for (const { channel, interpolation, axisId } of series) {
+      const data = columns[channel.key]
+      const value = data ? channelValueAt(data, cursorT, interpolation) : NaN
+      if (Number.isNaN(value)) continue
+      entries.push({ key: channel.key, name: channel.label, color: channel.color, value, axisId })
+    }
+  }
+
+  // markers, then the hover cursor and the dots where it crosses each trace
+  useEffect(() => {
+    const canvas = overlayRef.current
+    if (!canvas || size.width === 0) return
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = size.width * dpr
+    canvas.height = size.height * dpr
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, size.width, size.height)
+
+    ctx.font = FONT
+    ctx.textAlign = "left"
+    ctx.textBaseline = "top"
+    ctx.lineWidth = 1.5
+    for (const marker of markers) {
+      const x = toX(marker.t)
+      const end = marker.t1 === undefined ? x : toX(marker.t1)
+      if (end < plot.left || x > plot.left + plot.width) continue
+      ctx.strokeStyle = marker.color
+      ctx.fillStyle = marker.color
+      if (marker.t1 !== undefined) {
+        const left = Math.max(plot.left, x)
+        const right = Math.min(plot.left + plot.width, end)
+        ctx.globalAlpha = 0.15
+        ctx.fillRect(left, plot.top, right - left, plot.height)
+        ctx.globalAlpha = 1
+        ctx.fillText(marker.label, left + 4, plot.top + 2)
+        continue
+      }
+      ctx.setLineDash(marker.dashed ? [4, 3] : [])
+      ctx.beginPath()
+      ctx.moveTo(x, plot.top)
+      ctx.lineTo(x, plot.top + plot.height)
+      ctx.stroke()
+      ctx.fillText(marker.label, x + 4, plot.top + 2)
+    }
+    ctx.setLineDash([])
+
+    if (cursorT === null) return
+
+    const x = toX(cursorT)
+    ctx.strokeStyle = cssColor(canvas, "--muted-foreground", "#737373")
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(x, plot.top)
+    ctx.lineTo(x, plot.top + plot.height)
+    ctx.stroke()
+    for (const { color, value, axisId } of entries) {
+      ctx.fillStyle = color
+      ctx.beginPath()
+      ctx.arc(x, toY(axisId, value), 3, 0, Math.PI * 2)
+      ctx.fill()
+    }
+  }, [cursorT, columns, series, size, x0, x1, axes, markers])
+
+  const handleMouseLeave = () => {
+    setHover(null)
+    onCursorChange?.(null)
+  }
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const x = e.clientX - rect.left
+    const y = e.clientY - rect.top
+    const inside = x >= plot.left && x <= plot.left + plot.width && y >= plot.top && y <= plot.top + plot.height
+    if (!inside || series.every(({ channel }) => !columns[channel.key]?.t.length)) {
+      handleMouseLeave()
+      return
+    }
+    const t = x0 + ((x - plot.left) / plot.width) * (x1 - x0)
+    setHover({ x, y, t })
+    onCursorChange?.(t)
+  }
+
+  return (
+    <div className="flex h-full w-full flex-col">
+      <div
+        ref={wrapperRef}
+        className="relative min-h-0 flex-1"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={handleMouseLeave}
+      >
+        <canvas ref={traceRef} className="absolute inset-0 h-full w-full" />
+        <canvas ref={overlayRef} className="absolute inset-0 h-full w-full" />
+        {/* marks the plot for callers that map pointer positions to values, e.g. for box zoom */}
+        <div
+          data-plot-area={axes.map((axis) => axis.id).join(",")}
+          className="pointer-events-none absolute"
+          style={{ left: plot.left, top: plot.top, width: plot.width, height: plot.height }}
+        />
+        {renderTooltip && hover && entries.length > 0 && (
+          <div
+            className="pointer-events-none absolute z-10"
+            style={{
+              left: hover.x + 12,
+              top: hover.y + 12,
+              transform: hover.x > size.width / 2 ? "translateX(calc(-100% - 24px))" : undefined,
+            }}
+          >
+            {renderTooltip(hover.t, entries)}
+          </div>
+        )}
+      </div>
+      {legend && (
+        <div className="flex flex-wrap justify-center gap-4 pt-1 text-xs">
+          {series.map(({ channel }) => (
+            <span key={channel.key} className="flex items-center gap-1" style={{ color: channel.color }}>
+              <span className="inline-block h-0.5 w-3" style={{ backgroundColor: channel.color }} />
+              {channel.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+import { loadAnnotations, pruneAnnotations, saveAnnotations, type Annotation } from "@/lib/telemetry/annotations";
+
+// Annotations for one session, read from and written back to local storage under `sessionKey`.
+export function useAnnotations(sessionKey: string) {
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+
+  // storage is only readable once mounted in the browser
+  useEffect(() => {
+    pruneAnnotations();
+  }, []);
+
+  // switching sessions swaps the whole list
+  useEffect(() => {
+    setAnnotations(loadAnnotations(sessionKey));
+  }, [sessionKey]);
+
+  const update = useCallback(
+    (change: (prev: Annotation[]) => Annotation[]) =>
+      setAnnotations(prev => {
+        const next = change(prev);
+        saveAnnotations(sessionKey, next);
+        return next;
+      }),
+    [sessionKey],
+  );
+
+  const addAnnotation = useCallback(
+    (annotation: Omit<Annotation, "id">) =>
+      update(prev => [...prev, { ...annotation, id: crypto.randomUUID() }]),
+    [update],
+  );
+
+  const updateAnnotation = useCallback(
+    (id: string, changes: Partial<Omit<Annotation, "id">>) =>
+      update(prev => prev.map(a => (a.id === id ? { ...a, ...changes } : a))),
+    [update],
+  );
+
+  const removeAnnotation = useCallback(
+    (id: string) => update(prev => prev.filter(a => a.id !== id)),
+    [update],
+  );
+
+  return { annotations, addAnnotation, updateAnnotation, removeAnnotation };
+}
@@ -1,72 +1,70 @@
-import { useRef, useState } from "react";
-import type { Point } from "@/lib/types/telemtery";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Interpolation } from "@/lib/telemetry/align";
+import {
+  createTelemetryClient,
+  emptyWorkerSnapshot,
+  type TelemetryClient,
+  type WorkerQuery,
+  type QueryResult,
+} from "@/lib/telemetry/client";
 
-type SeriesFlags = { speed: boolean; current: boolean; temp: boolean};
+export type { SessionState, SessionSummary } from "@/lib/telemetry/session";
 
-export function useTelemetry(initialHz = 4) {
-    const [playing, setPlaying] = useState(false);
-    const [followTail, setFollowTail] = useState(true);
-    const [series, setSeries] = useState<SeriesFlags>({
-        speed: true,
-        current: true,
-        temp: true,
-});
-  const [data, setData] = useState<Point[]>([]);
-  const [hz, setHz] = useState(initialHz);
-        
-const timerRef = useRef<number | null>(null);
-const indexRef = useRef(0); 
+type SeriesFlags = Record<string, boolean>;
 
-const play = () => {
-if (playing) return;
-setPlaying(true);
+// The socket, decoding and sample buffer live in a worker (lib/telemetry/worker.ts); this hook mirrors its
+// snapshots into React and keeps the purely visual choices (series toggles, interpolation, follow tail) local.
+export function useTelemetry(initialHz = 4, maxPoints = 60 * 60 * 4, reorderWindowMs = 250, url?: string) {
+  const [followTail, setFollowTail] = useState(true);
+  const [series, setSeries] = useState<SeriesFlags>({});
+  const [interpolation, setInterpolationState] = useState<Record<string, Interpolation>>({});
+  const [snapshot, setSnapshot] = useState(() => emptyWorkerSnapshot(initialHz));
+  const clientRef = useRef<TelemetryClient | null>(null);
 
-timerRef.current = window.setInterval(() => {
+  // workers only exist in the browser, so the client is created after mount
+  useEffect(() => {
+    const client = createTelemetryClient({ hz: initialHz, maxPoints, reorderWindowMs });
+    clientRef.current = client;
+    const unsubscribe = client.subscribe(() => setSnapshot(client.getSnapshot()));
+    if (url) client.send({ type: "connect", url });
+    return () => {
+      unsubscribe();
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, [initialHz, maxPoints, reorderWindowMs, url]);
 
-  const i = indexRef.current;
-  const t = i / hz;
+  // keep existing toggles and alignment choices when the stream re-announces its channels.
+  // Every snapshot carries a fresh copy of the registry, so this keys on what it contains.
+  const { channels } = snapshot;
+  const registryKey = channels.map(c => `${c.key}:${c.interpolation}`).join(",");
+  useEffect(() => {
+    setSeries(prev => Object.fromEntries(channels.map(c => [c.key, prev[c.key] ?? true])));
+    setInterpolationState(prev => Object.fromEntries(channels.map(c => [c.key, prev[c.key] ?? c.interpolation])));
+  }, [registryKey]);
 
-  const mockPoint: Point = {
-    type: "point",
-    t: t,
-    speed: 2 + Math.random(),
-    current: 5 + Math.random(),
-    temp: 20 + Math.random(),
-  };
-  pushPoint(mockPoint);
-}, 1000 / hz);
-};
+  const play = useCallback(() => clientRef.current?.send({ type: "play" }), []);
+  const pause = useCallback(() => clientRef.current?.send({ type: "pause" }), []);
+  const clear = useCallback(() => clientRef.current?.send({ type: "clear" }), []);
+  const markLap = useCallback(() => clientRef.current?.send({ type: "markLap" }), []);
+  const setHz = useCallback((hz: number) => clientRef.current?.send({ type: "setHz", hz }), []);
 
-const pause = () => {
-  setPlaying(false);
-  if (timerRef.current !== null) {
-    clearInterval(timerRef.current);
-    timerRef.current = null;
-  }
- }
+  // resolves to null while the worker is not running
+  const query = useCallback(<Q extends WorkerQuery>(q: Q): Promise<QueryResult<Q> | null> => {
+    return clientRef.current ? clientRef.current.query(q) : Promise.resolve(null);
+  }, []);
 
-const toggleSeries = (key: keyof SeriesFlags) => setSeries(prev => ({ ...prev, [key]: !prev[key] }));
-const pushPoint = (p: Point) => {
-  setData(prev => { 
-    const maxPoints = 60 * 60 * 4;
-    const next = [...prev, p];
-    if (next.length > maxPoints){
-      next.splice(0, next.length - maxPoints);
-    }
-    return next;
-    });
-    indexRef.current += 1;
-  };
+  const toggleSeries = (key: string) => setSeries(prev => ({ ...prev, [key]: !prev[key] }));
 
-const clear = () => {
-  setData([]);
-  indexRef.current = 0;
-}
+  const setInterpolation = (key: string, mode: Interpolation) =>
+    setInterpolationState(prev => ({ ...prev, [key]: mode }));
+
+  const { playing, hz, session, sessionId, startTime, timeBase, linkStats, gaps, reorderStats, length, range, version, link, protocol } = snapshot;
 
   return {
-    playing, followTail, series, data, hz,
+    playing, followTail, channels, series, hz, session, sessionId, startTime, timeBase, linkStats, gaps, reorderStats, interpolation,
+    length, range, version, link, protocol,
     setFollowTail, setHz,
-    play, pause, toggleSeries, pushPoint, clear,
+    play, pause, toggleSeries, setInterpolation, markLap, clear, query,
   };
-
 }
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_PROFILES,
+  DEFAULT_THRESHOLDS,
+  loadThresholdProfiles,
+  saveThresholdProfiles,
+  type ThresholdConfig,
+  type ThresholdProfiles,
+} from "@/lib/telemetry/thresholds";
+
+// Threshold limits per vehicle profile, kept in local storage, and the profile currently applied to the charts.
+export function useThresholdProfiles() {
+  const [state, setState] = useState<ThresholdProfiles>(DEFAULT_PROFILES);
+
+  // storage is only readable once mounted in the browser
+  useEffect(() => {
+    setState(loadThresholdProfiles());
+  }, []);
+
+  const update = useCallback(
+    (change: (prev: ThresholdProfiles) => ThresholdProfiles) =>
+      setState(prev => {
+        const next = change(prev);
+        saveThresholdProfiles(next);
+        return next;
+      }),
+    [],
+  );
+
+  // adds the profile when the name is new, and switches to it either way
+  const saveProfile = useCallback(
+    (name: string, thresholds: ThresholdConfig) =>
+      update(prev => ({ active: name, profiles: { ...prev.profiles, [name]: thresholds } })),
+    [update],
+  );
+
+  // the last profile can't be removed, so there is always one to apply
+  const removeProfile = useCallback(
+    (name: string) =>
+      update(prev => {
+        const { [name]: _removed, ...profiles } = prev.profiles;
+        const names = Object.keys(profiles);
+        if (names.length === 0) return prev;
+        return { active: prev.active === name ? names[0] : prev.active, profiles };
+      }),
+    [update],
+  );
+
+  return {
+    profiles: state.profiles,
+    activeProfile: state.active,
+    thresholds: state.profiles[state.active] ?? DEFAULT_THRESHOLDS,
+    saveProfile,
+    removeProfile,
+  };
+}
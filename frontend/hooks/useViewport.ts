@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from "react";
+import type { QueryResult, ViewportQuery, WorkerQuery } from "@/lib/telemetry/client";
+
+type Query = <Q extends WorkerQuery>(q: Q) => Promise<QueryResult<Q> | null>;
+
+// Asks the worker for render-ready rows whenever the request or the data (`version`) changes.
+// Only one query is in flight at a time; changes made meanwhile are folded into a single follow-up.
+export function useViewport(query: Query, request: ViewportQuery, version: number) {
+  const [result, setResult] = useState<QueryResult<ViewportQuery> | null>(null);
+  const latestRef = useRef(request);
+  latestRef.current = request;
+  const inFlightRef = useRef(false);
+  const staleRef = useRef(false);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (inFlightRef.current) {
+      staleRef.current = true;
+      return;
+    }
+
+    const run = () => {
+      inFlightRef.current = true;
+      staleRef.current = false;
+      query(latestRef.current)
+        .then(next => {
+          if (mountedRef.current && next) setResult(next);
+        })
+        .catch(error => {
+          console.error("[v0] Viewport query failed:", error);
+        })
+        .finally(() => {
+          // cleared whatever happened, or a failed query would stop the chart updating for good
+          inFlightRef.current = false;
+          if (mountedRef.current && staleRef.current) run();
+        });
+    };
+    run();
+  }, [query, request, version]);
+
+  return result;
+}
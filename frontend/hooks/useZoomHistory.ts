@@ -0,0 +1,43 @@
+import { useCallback, useState } from "react";
+
+// views kept to go back to; the oldest are dropped beyond this
+const MAX_ENTRIES = 50;
+
+// Back/forward stacks of chart views. Callers `record` the view they are about to leave; `back` and
+// `forward` take the view on screen and return the one to show instead, or null when there is none.
+export function useZoomHistory<T>() {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  const record = useCallback((view: T) => {
+    setPast(prev => [...prev.slice(1 - MAX_ENTRIES), view]);
+    setFuture([]);
+  }, []);
+
+  const back = useCallback(
+    (current: T): T | null => {
+      if (past.length === 0) return null;
+      setPast(past.slice(0, -1));
+      setFuture(prev => [current, ...prev]);
+      return past[past.length - 1];
+    },
+    [past],
+  );
+
+  const forward = useCallback(
+    (current: T): T | null => {
+      if (future.length === 0) return null;
+      setFuture(future.slice(1));
+      setPast(prev => [...prev, current]);
+      return future[0];
+    },
+    [future],
+  );
+
+  const reset = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  return { canGoBack: past.length > 0, canGoForward: future.length > 0, record, back, forward, reset };
+}
@@ -0,0 +1,110 @@
+import type { SeriesMeta } from "@/lib/types/telemtery"
+
+type Frame = Record<string, unknown>
+
+// maps one inbound payload schema onto protocol frames (Meta | Point | End), which the decoder then validates
+export interface MessageAdapter {
+  name: string
+  matches(frame: Frame): boolean
+  adapt(frame: Frame): Frame[]
+  reset?(): void
+}
+
+// frames that already speak the protocol
+export const protocolAdapter: MessageAdapter = {
+  name: "protocol",
+  matches: (frame) => ["meta", "point", "samples", "end"].includes(frame.type as string),
+  adapt: (frame) => [frame],
+}
+
+// metadata for channels the FastAPI backend is known to send
+const BACKEND_SERIES: Record<string, Omit<SeriesMeta, "key">> = {
+  battery: { min: 0, max: 100 },
+}
+
+// for schemas without a Meta of their own: a synthesized one, in seconds, whenever a sample brings channels
+// not announced yet; otherwise nothing
+function announceChannels(
+  announced: Set<string>,
+  channels: Frame,
+  meta: { sessionID: string; hz: number },
+): Frame[] {
+  const keys = Object.keys(channels).filter((key) => typeof channels[key] === "number")
+  if (keys.every((key) => announced.has(key))) return []
+  keys.forEach((key) => announced.add(key))
+  return [
+    {
+      type: "meta",
+      sessionID: meta.sessionID,
+      series: [...announced].map((key) => ({ key, ...BACKEND_SERIES[key] })),
+      hz: meta.hz,
+      timeUnit: "s",
+    },
+  ]
+}
+
+// older dashboard servers tag samples as { type: "telemetry", t (s), ...channels } and never send a Meta
+export function createLegacyTelemetryAdapter(options: { sessionID?: string; hz?: number } = {}): MessageAdapter {
+  const announced = new Set<string>()
+
+  return {
+    name: "legacy-telemetry",
+    matches: (frame) => frame.type === "telemetry",
+    adapt(frame) {
+      const { type: _type, t, seq, ...channels } = frame
+      const meta = { sessionID: options.sessionID ?? "legacy-telemetry", hz: options.hz ?? 1 }
+      return [...announceChannels(announced, channels, meta), { ...channels, type: "point", t, seq }]
+    },
+    reset() {
+      announced.clear()
+    },
+  }
+}
+
+// FastAPI /ws/replay and /data: untyped { time (s), ...channels } samples and a final { done: true }.
+// The backend never sends a Meta, so one is synthesized from the first sample and re-sent when new channels appear.
+export function createBackendReplayAdapter(options: { sessionID?: string; hz?: number } = {}): MessageAdapter {
+  const announced = new Set<string>()
+
+  return {
+    name: "backend-replay",
+    matches: (frame) => frame.type === undefined && ("time" in frame || "done" in frame),
+    adapt(frame) {
+      if (frame.done === true) {
+        return [{ type: "end", reason: typeof frame.reason === "string" ? frame.reason : "replay finished" }]
+      }
+
+      const { time, ...channels } = frame
+      const meta = { sessionID: options.sessionID ?? "backend-replay", hz: options.hz ?? 1 }
+      return [...announceChannels(announced, channels, meta), { type: "point", ...channels, t: time }]
+    },
+    reset() {
+      announced.clear()
+    },
+  }
+}
+
+// tries each adapter in order; payloads no adapter claims are passed through for the decoder to reject
+export function createAdapterChain(adapters: MessageAdapter[]) {
+  const adaptOne = (frame: unknown): unknown[] => {
+    if (typeof frame !== "object" || frame === null || Array.isArray(frame)) return [frame]
+    const adapter = adapters.find((a) => a.matches(frame as Frame))
+    return adapter ? adapter.adapt(frame as Frame) : [frame]
+  }
+
+  return {
+    // a payload may be a single frame or, as with /data, an array of them
+    adapt(payload: unknown): unknown[] {
+      return Array.isArray(payload) ? payload.flatMap(adaptOne) : adaptOne(payload)
+    },
+    reset() {
+      adapters.forEach((a) => a.reset?.())
+    },
+  }
+}
+
+export type AdapterChain = ReturnType<typeof createAdapterChain>
+
+export function createDefaultAdapterChain(): AdapterChain {
+  return createAdapterChain([protocolAdapter, createLegacyTelemetryAdapter(), createBackendReplayAdapter()])
+}
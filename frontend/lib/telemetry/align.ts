@@ -0,0 +1,61 @@
+import { MS_PER_UNIT, type TimeUnit } from "@/lib/telemetry/timebase"
+import type { Point, Samples, TelemetryPoint } from "@/lib/types/telemtery"
+
+// how a channel is resampled between its own samples: zero-order hold or linear interpolation
+export type Interpolation = "hold" | "linear"
+
+// unrolls a per-channel Samples block into single-channel points on the stream's time unit
+export function samplesToPoints(block: Samples, unit: TimeUnit): Point[] {
+  const step = 1000 / block.hz / MS_PER_UNIT[unit]
+  const points: Point[] = []
+  block.values.forEach((value, i) => {
+    if (Number.isFinite(value)) points.push({ type: "point", t: block.t0 + i * step, [block.channel]: value })
+  })
+  return points
+}
+
+// resamples every channel onto a shared timeline: each distinct timestamp of the rows, i.e. the union of all
+// channels, so rows at the same instant merge into one. Rows must be in time order; each channel holds its last
+// value past its final sample and stays empty before its first.
+export function alignRows(
+  rows: TelemetryPoint[],
+  keys: string[],
+  interpolation: Record<string, Interpolation>,
+): TelemetryPoint[] {
+  const aligned: TelemetryPoint[] = []
+  for (const row of rows) {
+    if (aligned.length === 0 || aligned[aligned.length - 1].t !== row.t) aligned.push({ t: row.t })
+  }
+
+  for (const key of keys) {
+    const linear = (interpolation[key] ?? "linear") === "linear"
+    let prev = -1 // last row at or before the aligned time that carries this channel
+    let next = -1 // first row after prev that carries it
+
+    const advance = (from: number) => {
+      for (let i = from; i < rows.length; i++) if (rows[i][key] !== undefined) return i
+      return -1
+    }
+    next = advance(0)
+
+    for (let g = 0; g < aligned.length; g++) {
+      const t = aligned[g].t
+      while (next !== -1 && rows[next].t <= t) {
+        prev = next
+        next = advance(next + 1)
+      }
+      if (prev === -1) continue
+
+      const before = rows[prev]
+      if (!linear || next === -1 || before.t === t) {
+        aligned[g][key] = before[key]
+        continue
+      }
+      const after = rows[next]
+      const ratio = (t - before.t) / (after.t - before.t)
+      aligned[g][key] = before[key] + (after[key] - before[key]) * ratio
+    }
+  }
+
+  return aligned
+}
@@ -0,0 +1,94 @@
+// a user note pinned to the session timeline: a flag at t0, or a shaded range when t1 is set.
+// Times are session offsets (s), like every other time on the chart.
+export interface Annotation {
+  id: string
+  t0: number
+  t1: number | null
+  title: string
+  note: string
+  color: string
+}
+
+export const ANNOTATION_COLORS = ["#ef4444", "#f59e0b", "#22c55e", "#3b82f6", "#a855f7", "#64748b"]
+
+const STORAGE_PREFIX = "telemetry:annotations:"
+// keys with saved annotations, most recently saved first
+const INDEX_KEY = "telemetry:annotation-index"
+// the least recently saved sessions are forgotten past this many
+const MAX_SESSIONS = 50
+
+const isAnnotation = (value: unknown): value is Annotation => {
+  const a = value as Annotation
+  return (
+    typeof a === "object" &&
+    a !== null &&
+    typeof a.id === "string" &&
+    typeof a.t0 === "number" &&
+    (a.t1 === null || typeof a.t1 === "number") &&
+    typeof a.title === "string" &&
+    typeof a.note === "string" &&
+    typeof a.color === "string"
+  )
+}
+
+function loadIndex(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(INDEX_KEY) ?? "[]")
+    return Array.isArray(stored) ? stored.filter((key): key is string => typeof key === "string") : []
+  } catch {
+    return []
+  }
+}
+
+// annotations saved for a session, oldest first; anything unreadable is dropped
+export function loadAnnotations(sessionKey: string): Annotation[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + sessionKey) ?? "[]")
+    return Array.isArray(stored) ? stored.filter(isAnnotation) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveAnnotations(sessionKey: string, annotations: Annotation[]) {
+  try {
+    const others = loadIndex().filter((key) => key !== sessionKey)
+    const index = annotations.length === 0 ? others : [sessionKey, ...others]
+    for (const key of index.slice(MAX_SESSIONS)) localStorage.removeItem(STORAGE_PREFIX + key)
+    localStorage.setItem(INDEX_KEY, JSON.stringify(index.slice(0, MAX_SESSIONS)))
+
+    if (annotations.length === 0) localStorage.removeItem(STORAGE_PREFIX + sessionKey)
+    else localStorage.setItem(STORAGE_PREFIX + sessionKey, JSON.stringify(annotations))
+  } catch (error) {
+    console.error("[v0] Error saving annotations:", error)
+  }
+}
+
+// drops saved annotations no session key can reach any more: the ones keyed on a run's start time before the
+// index existed, when unannounced starts were keyed too and so changed on every run
+export function pruneAnnotations() {
+  try {
+    const index = new Set(loadIndex())
+    const orphans: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (!key?.startsWith(STORAGE_PREFIX)) continue
+      const sessionKey = key.slice(STORAGE_PREFIX.length)
+      if (sessionKey.includes("@") && !index.has(sessionKey)) orphans.push(key)
+    }
+    for (const key of orphans) localStorage.removeItem(key)
+  } catch (error) {
+    console.error("[v0] Error pruning annotations:", error)
+  }
+}
+
+// one CSV comment line per annotation, for the export header
+export function annotationsToCsvHeader(annotations: Annotation[]): string[] {
+  return [...annotations]
+    .sort((a, b) => a.t0 - b.t0)
+    .map((a) => {
+      const when = a.t1 === null ? `${a.t0.toFixed(3)}s` : `${a.t0.toFixed(3)}s - ${a.t1.toFixed(3)}s`
+      const note = a.note ? ` - ${a.note.replace(/\s+/g, " ")}` : ""
+      return `# Annotation: ${when} | ${a.title}${note} | ${a.color}`
+    })
+}
@@ -0,0 +1,116 @@
+import { expectedRange, type Channel } from "@/lib/telemetry/channels"
+
+// auto: the range the stream announces, else everything seen this session; fit: the visible samples;
+// manual: a range the user set
+export type AxisMode = "auto" | "fit" | "manual"
+
+export const AXIS_MODES: { value: AxisMode; label: string }[] = [
+  { value: "auto", label: "Auto" },
+  { value: "fit", label: "Fit visible" },
+  { value: "manual", label: "Manual" },
+]
+
+// smallest and largest value of a channel over some span of samples
+export interface ValueRange {
+  min: number
+  max: number
+}
+
+export interface Axis {
+  id: string
+  channels: Channel[]
+  label: string
+  color: string // the channel's color when it has the axis to itself
+  mode: AxisMode
+  domain: [number, number]
+}
+
+// fraction of the data span added above and below when fitting to samples
+const FIT_PADDING = 0.05
+
+const union = (ranges: (ValueRange | undefined)[]): ValueRange | null => {
+  let min = Infinity
+  let max = -Infinity
+  for (const range of ranges) {
+    if (!range) continue
+    min = Math.min(min, range.min)
+    max = Math.max(max, range.max)
+  }
+  return min <= max ? { min, max } : null
+}
+
+const padded = ({ min, max }: ValueRange): [number, number] => {
+  const pad = (max - min) * FIT_PADDING || Math.abs(max) * FIT_PADDING || 1
+  return [min - pad, max + pad]
+}
+
+// the range the channels on the axis announced, when every one of them did
+const announced = (channels: Channel[]) =>
+  channels.every((c) => c.min !== undefined && c.max !== undefined) ? expectedRange(channels) : null
+
+// Groups the drawn channels onto Y axes and resolves each axis' domain. `groups` maps a channel to the axis
+// (named after the channel that owns it) it shares; channels not in it, or pointing at an axis that is not
+// drawn, get an axis of their own.
+export function buildAxes(
+  channels: Channel[],
+  groups: Record<string, string>,
+  modes: Record<string, AxisMode>,
+  manual: Record<string, ValueRange>,
+  visible: Record<string, ValueRange>,
+  session: Record<string, ValueRange>,
+): Axis[] {
+  const drawn = new Set(channels.map((c) => c.key))
+  const members = new Map<string, Channel[]>()
+  for (const channel of channels) {
+    const target = groups[channel.key]
+    const id = target && drawn.has(target) && !groups[target] ? target : channel.key
+    members.set(id, [...(members.get(id) ?? []), channel])
+  }
+
+  return [...members].map(([id, axisChannels]): Axis => {
+    const mode = modes[id] ?? "auto"
+    const auto = () => {
+      const fromMeta = announced(axisChannels)
+      if (fromMeta) return fromMeta
+      const seen = union(axisChannels.map((c) => session[c.key]))
+      return seen ? padded(seen) : ([0, 1] as [number, number])
+    }
+
+    let domain: [number, number]
+    if (mode === "manual" && manual[id]) {
+      domain = [manual[id].min, manual[id].max]
+    } else if (mode === "fit") {
+      const inView = union(axisChannels.map((c) => visible[c.key]))
+      domain = inView ? padded(inView) : auto()
+    } else {
+      domain = auto()
+    }
+
+    const units = [...new Set(axisChannels.map((c) => c.unit).filter(Boolean))]
+    const names = axisChannels.map((c) => c.label).join(", ")
+    return {
+      id,
+      channels: axisChannels,
+      label: units.length > 0 ? `${names} (${units.join(", ")})` : names,
+      color: axisChannels.length === 1 ? axisChannels[0].color : "",
+      mode,
+      domain,
+    }
+  })
+}
+
+// room each Y axis takes beside the plot; axes alternate left and right, the first of each side innermost
+export const AXIS_WIDTH = 60
+
+// the axis drawn at `x`, measured from the plot's left edge (negative left of it), for a plot `width` wide
+export function axisAt(axes: Axis[], x: number, width: number): Axis | null {
+  if (x >= 0 && x <= width) return null
+  const onLeft = x < 0
+  const slot = Math.floor((onLeft ? -x : x - width) / AXIS_WIDTH)
+  return axes[slot * 2 + (onLeft ? 0 : 1)] ?? null
+}
+
+// scales [min, max] by `factor` about `anchor`, which stays where it is
+export function zoomRange({ min, max }: ValueRange, anchor: number, factor: number): ValueRange {
+  return { min: anchor - (anchor - min) * factor, max: anchor + (max - anchor) * factor }
+}
@@ -0,0 +1,79 @@
+import type { BinaryLayout, Point } from "@/lib/types/telemtery"
+
+// Binary frame, little-endian:
+//   header  u16 channel count | u8 sample type (0 = f32, 1 = f64) | u8 reserved | u32 seq of the first row | u32 row count
+//   rows    f64 t, then one f32/f64 value per channel in the order of Meta.binary.channels
+// t is always f64 so epoch timestamps keep their precision; NaN marks a channel with no sample in that row.
+export const BINARY_HEADER_BYTES = 12
+
+const SAMPLE_TYPES = ["f32", "f64"] as const
+const SAMPLE_BYTES = { f32: 4, f64: 8 }
+
+export type BinaryDecodeResult = { ok: true; points: Point[] } | { ok: false; reason: string }
+
+export function decodeBinaryFrame(buffer: ArrayBuffer, layout: BinaryLayout): BinaryDecodeResult {
+  if (buffer.byteLength < BINARY_HEADER_BYTES) {
+    return { ok: false, reason: `binary frame is shorter than its header (${buffer.byteLength} bytes)` }
+  }
+
+  const view = new DataView(buffer)
+  const channelCount = view.getUint16(0, true)
+  const sampleType = SAMPLE_TYPES[view.getUint8(2)]
+  const seq = view.getUint32(4, true)
+  const rowCount = view.getUint32(8, true)
+
+  if (channelCount !== layout.channels.length) {
+    return { ok: false, reason: `binary frame has ${channelCount} channels, layout announced ${layout.channels.length}` }
+  }
+  if (!sampleType) return { ok: false, reason: `unknown binary sample type ${view.getUint8(2)}` }
+
+  const sampleBytes = SAMPLE_BYTES[sampleType]
+  const rowBytes = 8 + channelCount * sampleBytes
+  if (buffer.byteLength !== BINARY_HEADER_BYTES + rowCount * rowBytes) {
+    return { ok: false, reason: `binary frame is ${buffer.byteLength} bytes, expected ${BINARY_HEADER_BYTES + rowCount * rowBytes}` }
+  }
+
+  const read = sampleType === "f64" ? view.getFloat64.bind(view) : view.getFloat32.bind(view)
+  const points: Point[] = []
+  for (let row = 0; row < rowCount; row++) {
+    let offset = BINARY_HEADER_BYTES + row * rowBytes
+    const t = view.getFloat64(offset, true)
+    offset += 8
+    if (!Number.isFinite(t)) continue
+
+    const point: Point = { type: "point", t, seq: seq + row }
+    for (const key of layout.channels) {
+      const value = read(offset, true)
+      offset += sampleBytes
+      if (Number.isFinite(value)) point[key] = value
+    }
+    points.push(point)
+  }
+  return { ok: true, points }
+}
+
+// the inverse of decodeBinaryFrame; the mock sends its rows through it so the binary path runs without a server
+export function encodeBinaryFrame(points: Point[], layout: BinaryLayout, seq: number): ArrayBuffer {
+  const sampleBytes = SAMPLE_BYTES[layout.sampleType]
+  const rowBytes = 8 + layout.channels.length * sampleBytes
+  const buffer = new ArrayBuffer(BINARY_HEADER_BYTES + points.length * rowBytes)
+  const view = new DataView(buffer)
+
+  view.setUint16(0, layout.channels.length, true)
+  view.setUint8(2, SAMPLE_TYPES.indexOf(layout.sampleType))
+  view.setUint32(4, seq, true)
+  view.setUint32(8, points.length, true)
+
+  const write = layout.sampleType === "f64" ? view.setFloat64.bind(view) : view.setFloat32.bind(view)
+  points.forEach((point, row) => {
+    let offset = BINARY_HEADER_BYTES + row * rowBytes
+    view.setFloat64(offset, point.t, true)
+    offset += 8
+    for (const key of layout.channels) {
+      const value = point[key]
+      write(offset, typeof value === "number" ? value : NaN, true)
+      offset += sampleBytes
+    }
+  })
+  return buffer
+}
@@ -0,0 +1,94 @@
+import type { Interpolation } from "@/lib/telemetry/align"
+import type { Meta, SeriesMeta } from "@/lib/types/telemtery"
+
+// one entry in the channel registry, built at runtime from Meta.series
+export interface Channel {
+  key: string
+  label: string
+  unit: string
+  color: string
+  precision: number
+  min?: number
+  max?: number
+  hz?: number // native rate, for channels streamed on their own
+  interpolation: Interpolation
+}
+
+const DEFAULT_PRECISION = 2
+
+// fallbacks for streams that announce bare channel keys without metadata
+const KNOWN_CHANNELS: Record<string, Omit<SeriesMeta, "key">> = {
+  speed: { label: "Speed", unit: "m/s", color: "#f97316", precision: 1 },
+  current: { label: "Current", unit: "A", color: "#06b6d4", precision: 1 },
+  temp: { label: "Temperature", unit: "°C", color: "#6366f1", precision: 1 },
+  battery: { label: "Battery", unit: "%", color: "#22c55e", precision: 1 },
+}
+
+const PALETTE = [
+  "#f97316",
+  "#06b6d4",
+  "#6366f1",
+  "#22c55e",
+  "#eab308",
+  "#ec4899",
+  "#14b8a6",
+  "#a855f7",
+  "#ef4444",
+  "#84cc16",
+]
+
+// "battery_temp" -> "Battery Temp"
+function labelFromKey(key: string): string {
+  return key
+    .split(/[_\-\s]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(" ")
+}
+
+export function buildChannelRegistry(meta: Pick<Meta, "series">): Channel[] {
+  const seen = new Set<string>()
+  const channels: Channel[] = []
+
+  for (const entry of meta.series) {
+    const announced: SeriesMeta = typeof entry === "string" ? { key: entry } : entry
+    const key = announced.key
+    if (!key || key === "t" || key === "type" || seen.has(key)) continue
+    seen.add(key)
+
+    const info = { ...KNOWN_CHANNELS[key], ...announced }
+    channels.push({
+      key,
+      label: info.label ?? labelFromKey(key),
+      unit: info.unit ?? "",
+      color: info.color ?? PALETTE[channels.length % PALETTE.length],
+      precision: info.precision ?? DEFAULT_PRECISION,
+      min: info.min,
+      max: info.max,
+      hz: info.hz,
+      interpolation: info.interpolation ?? "linear",
+    })
+  }
+
+  return channels
+}
+
+export function formatChannelLabel(channel: Channel): string {
+  return channel.unit ? `${channel.label} (${channel.unit})` : channel.label
+}
+
+export function formatChannelValue(channel: Channel, value: number): string {
+  return value.toFixed(channel.precision)
+}
+
+// union of the expected ranges of the given channels, or null when none announce one
+export function expectedRange(channels: Channel[]): [number, number] | null {
+  let min = Infinity
+  let max = -Infinity
+  for (const channel of channels) {
+    if (channel.min !== undefined) min = Math.min(min, channel.min)
+    if (channel.max !== undefined) max = Math.max(max, channel.max)
+  }
+  if (min === Infinity || max === -Infinity || min >= max) return null
+  return [min, max]
+}
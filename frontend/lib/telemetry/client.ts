@@ -0,0 +1,155 @@
+import type { Interpolation } from "@/lib/telemetry/align"
+import type { ValueRange } from "@/lib/telemetry/axes"
+import type { Columns, SeriesColumns } from "@/lib/telemetry/columns"
+import { createFrameDecoder, type DecoderStats } from "@/lib/telemetry/decoder"
+import type { DecimationMode } from "@/lib/telemetry/downsample"
+import type { Measurement } from "@/lib/telemetry/measure"
+import type { KPIData } from "@/lib/telemetry/metrics"
+import { emptySnapshot, type SessionOptions, type SessionSnapshot } from "@/lib/telemetry/session"
+import type { Limits } from "@/lib/telemetry/thresholds"
+
+// state of the connection the worker holds
+export interface LinkStatus {
+  connected: boolean
+  latency: number
+  lastUpdate: Date | null
+  mock: boolean // the server could not be reached and the mock generator stands in
+}
+
+export interface WorkerSnapshot extends SessionSnapshot {
+  link: LinkStatus
+  protocol: DecoderStats
+}
+
+export type WorkerCommand =
+  | { type: "init"; options: SessionOptions }
+  | { type: "connect"; url: string }
+  | { type: "play" } // the live stream when connected, otherwise the mock generator
+  | { type: "pause" }
+  | { type: "clear" }
+  | { type: "setHz"; hz: number }
+  | { type: "markLap" }
+
+// render-ready rows for [t0, t1] (null: the whole buffer): decimated per channel, aligned and broken at gaps
+export interface ViewportQuery {
+  type: "viewport"
+  t0: number | null
+  t1: number | null
+  keys: string[]
+  pixels: number
+  mode: DecimationMode
+  threshold: number // windows with at most this many rows are drawn raw
+  interpolation: Record<string, Interpolation>
+  warning: Record<string, Limits> // limits per channel that KPI exceedances are counted against
+}
+
+export interface ViewportResult {
+  series: SeriesColumns // per visible channel, each on its own timestamps
+  points: number // channel samples actually drawn
+  length: number // raw rows inside the window
+  kpis: KPIData // over the raw rows, for the visible channels
+  extents: Record<string, ValueRange> // per visible channel, inside the window
+  sessionExtents: Record<string, ValueRange> // per visible channel, over the whole buffer
+}
+
+// every raw row in [t0, t1], aligned, for export
+export interface ExportQuery {
+  type: "export"
+  t0: number | null
+  t1: number | null
+  keys: string[]
+  interpolation: Record<string, Interpolation>
+}
+
+// each channel's values at measurement cursors a and b and its spread between them
+export interface MeasureQuery {
+  type: "measure"
+  a: number
+  b: number
+  keys: string[]
+  interpolation: Record<string, Interpolation>
+}
+
+export type WorkerQuery = ViewportQuery | ExportQuery | MeasureQuery
+
+type QueryResults = { viewport: ViewportResult; export: Columns; measure: Record<string, Measurement> }
+export type QueryResult<Q extends WorkerQuery> = QueryResults[Q["type"]]
+
+export type WorkerRequest = WorkerCommand | { type: "query"; id: number; query: WorkerQuery }
+
+export type WorkerEvent =
+  | { type: "snapshot"; snapshot: WorkerSnapshot }
+  | { type: "result"; id: number; result: QueryResults[WorkerQuery["type"]] }
+  | { type: "error"; id: number; message: string } // the query with this id failed in the worker
+
+export function emptyWorkerSnapshot(hz: number): WorkerSnapshot {
+  return {
+    ...emptySnapshot(hz),
+    link: { connected: false, latency: 0, lastUpdate: null, mock: false },
+    protocol: createFrameDecoder().stats(),
+  }
+}
+
+// Main-thread handle on the telemetry worker, which owns the socket, decoding and the sample buffer.
+// Snapshots arrive on their own; anything about the samples themselves is asked for with `query`.
+export function createTelemetryClient(options: SessionOptions) {
+  const worker = new Worker(new URL("./worker.ts", import.meta.url), { type: "module" })
+  let snapshot = emptyWorkerSnapshot(options.hz)
+  const listeners = new Set<() => void>()
+  const pending = new Map<
+    number,
+    { resolve: (result: QueryResults[WorkerQuery["type"]]) => void; reject: (error: Error) => void }
+  >()
+  let nextId = 0
+
+  worker.onmessage = (event: MessageEvent<WorkerEvent>) => {
+    const message = event.data
+    if (message.type === "snapshot") {
+      snapshot = message.snapshot
+      listeners.forEach((listener) => listener())
+      return
+    }
+    const request = pending.get(message.id)
+    pending.delete(message.id)
+    if (message.type === "error") request?.reject(new Error(message.message))
+    else request?.resolve(message.result)
+  }
+
+  const send = (request: WorkerRequest) => worker.postMessage(request)
+  send({ type: "init", options })
+
+  return {
+    send(command: WorkerCommand) {
+      send(command)
+    },
+
+    query<Q extends WorkerQuery>(query: Q): Promise<QueryResult<Q>> {
+      const id = nextId++
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve: (result) => resolve(result as QueryResult<Q>), reject })
+        send({ type: "query", id, query })
+      })
+    },
+
+    subscribe(listener: () => void) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    getSnapshot(): WorkerSnapshot {
+      return snapshot
+    },
+
+    dispose() {
+      worker.terminate()
+      listeners.clear()
+      // nothing will answer these any more
+      pending.forEach(({ reject }) => reject(new Error("Telemetry worker stopped")))
+      pending.clear()
+    },
+  }
+}
+
+export type TelemetryClient = ReturnType<typeof createTelemetryClient>
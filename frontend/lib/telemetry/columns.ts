@@ -0,0 +1,102 @@
+import { alignRows, type Interpolation } from "@/lib/telemetry/align"
+import type { TelemetryPoint } from "@/lib/types/telemtery"
+
+// rows laid out as one array per channel plus a time column, NaN where a row has no value.
+// This is how render data crosses the worker boundary: the arrays' buffers are transferred, not copied.
+export interface Columns {
+  t: Float64Array
+  values: Record<string, Float64Array>
+}
+
+export function rowsToColumns(rows: TelemetryPoint[], keys: string[]): Columns {
+  const t = new Float64Array(rows.length)
+  const values: Record<string, Float64Array> = {}
+  for (const key of keys) values[key] = new Float64Array(rows.length).fill(NaN)
+  rows.forEach((row, i) => {
+    t[i] = row.t
+    for (const key of keys) {
+      const value = row[key]
+      if (value !== undefined) values[key][i] = value
+    }
+  })
+  return { t, values }
+}
+
+// back to row objects for consumers that need them (CSV)
+export function columnsToRows({ t, values }: Columns): TelemetryPoint[] {
+  const keys = Object.keys(values)
+  const rows: TelemetryPoint[] = new Array(t.length)
+  for (let i = 0; i < t.length; i++) {
+    const row: TelemetryPoint = { t: t[i] }
+    for (const key of keys) {
+      const value = values[key][i]
+      if (!Number.isNaN(value)) row[key] = value
+    }
+    rows[i] = row
+  }
+  return rows
+}
+
+export function transferablesOf({ t, values }: Columns): ArrayBuffer[] {
+  return [t.buffer as ArrayBuffer, ...Object.values(values).map((column) => column.buffer as ArrayBuffer)]
+}
+
+// one channel's own samples in time order, the way the charts draw it; a NaN value breaks the line.
+// Channels are decimated and sent each on their own, so none is redrawn at every other channel's timestamps.
+export interface ChannelColumns {
+  t: Float64Array
+  v: Float64Array
+}
+
+export type SeriesColumns = Record<string, ChannelColumns>
+
+export function seriesTransferables(series: SeriesColumns): ArrayBuffer[] {
+  return Object.values(series).flatMap(({ t, v }) => [t.buffer as ArrayBuffer, v.buffer as ArrayBuffer])
+}
+
+// the value a channel's line shows at `target`: held from the sample at or before it, or interpolated towards
+// the next one. NaN before the first sample and across a break; past the last sample it holds, like alignRows.
+export function channelValueAt(channel: ChannelColumns, target: number, interpolation: Interpolation): number {
+  const { t, v } = channel
+  let lo = 0
+  let hi = t.length
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1
+    if (t[mid] <= target) lo = mid + 1
+    else hi = mid
+  }
+  const i = lo - 1
+  if (i < 0) return NaN
+  if (interpolation === "hold" || i === t.length - 1 || t[i] === target) return v[i]
+  return v[i] + ((v[i + 1] - v[i]) * (target - t[i])) / (t[i + 1] - t[i])
+}
+
+// rows aligned on every channel's timestamps, for the SVG chart; a break in any channel empties its row
+export function seriesToRows(
+  series: SeriesColumns,
+  keys: string[],
+  interpolation: Record<string, Interpolation>,
+): TelemetryPoint[] {
+  const byTime = new Map<number, TelemetryPoint>()
+  const breaks = new Set<number>()
+  const rowAt = (t: number) => {
+    let row = byTime.get(t)
+    if (!row) {
+      row = { t }
+      byTime.set(t, row)
+    }
+    return row
+  }
+  for (const key of keys) {
+    const channel = series[key]
+    if (!channel) continue
+    for (let i = 0; i < channel.t.length; i++) {
+      if (Number.isNaN(channel.v[i])) {
+        breaks.add(channel.t[i])
+        rowAt(channel.t[i])
+      } else rowAt(channel.t[i])[key] = channel.v[i]
+    }
+  }
+  const rows = [...byTime.values()].sort((a, b) => a.t - b.t)
+  return alignRows(rows, keys, interpolation).map((row) => (breaks.has(row.t) ? { t: row.t } : row))
+}
@@ -0,0 +1,284 @@
+import { decodeBinaryFrame } from "@/lib/telemetry/binary"
+import type { TimeUnit } from "@/lib/telemetry/timebase"
+import type { BinaryLayout, End, Meta, Point, Samples, SeriesMeta, telemetryMsg } from "@/lib/types/telemtery"
+
+// what went wrong with a frame: unparseable text, an unknown type, a bad binary frame or a bad message of a known type
+export type FrameErrorType = "parse" | "unknown" | "binary" | telemetryMsg["type"]
+
+// payloads are messages off the socket, which may carry several frames; every frame is either accepted or rejected
+export interface DecoderStats {
+  payloads: number
+  received: number // frames, counting a payload that didn't parse as one
+  accepted: number
+  repaired: number
+  rejected: number
+  errors: Record<FrameErrorType, number>
+  lastError: string | null
+}
+
+export type DecodeResult =
+  | { ok: true; msg: telemetryMsg; repaired: boolean }
+  | { ok: false; error: FrameErrorType; reason: string }
+
+type Frame = Record<string, unknown>
+
+const SERIES_META_NUMBERS = ["min", "max", "precision", "hz"] as const
+const INTERPOLATIONS = ["hold", "linear"]
+const SAMPLE_TYPES = ["f32", "f64"]
+const SERIES_META_STRINGS = ["label", "unit", "color"] as const
+const TIME_UNITS: TimeUnit[] = ["s", "ms", "us"]
+
+function emptyStats(): DecoderStats {
+  return {
+    payloads: 0,
+    received: 0,
+    accepted: 0,
+    repaired: 0,
+    rejected: 0,
+    errors: { parse: 0, unknown: 0, binary: 0, meta: 0, point: 0, samples: 0, end: 0 },
+    lastError: null,
+  }
+}
+
+function isFrame(value: unknown): value is Frame {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// accepts numbers and numeric strings, anything else is NaN
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value
+  if (typeof value === "string" && value.trim() !== "") return Number(value)
+  return NaN
+}
+
+function reject(error: FrameErrorType, reason: string): DecodeResult {
+  return { ok: false, error, reason }
+}
+
+function decodeSeriesEntry(entry: unknown): { value: string | SeriesMeta | null; repaired: boolean } {
+  if (typeof entry === "string") return { value: entry || null, repaired: !entry }
+  if (!isFrame(entry) || typeof entry.key !== "string" || !entry.key) return { value: null, repaired: true }
+
+  let repaired = false
+  const series: SeriesMeta = { key: entry.key }
+  for (const field of SERIES_META_STRINGS) {
+    const raw = entry[field]
+    if (raw === undefined) continue
+    if (typeof raw === "string") series[field] = raw
+    else repaired = true
+  }
+  for (const field of SERIES_META_NUMBERS) {
+    const raw = entry[field]
+    if (raw === undefined) continue
+    const value = toNumber(raw)
+    if (Number.isFinite(value)) series[field] = value
+    repaired ||= typeof raw !== "number" || !Number.isFinite(value)
+  }
+  if (entry.interpolation !== undefined) {
+    if (INTERPOLATIONS.includes(entry.interpolation as string)) {
+      series.interpolation = entry.interpolation as SeriesMeta["interpolation"]
+    } else {
+      repaired = true
+    }
+  }
+  return { value: series, repaired }
+}
+
+function decodeMeta(frame: Frame): DecodeResult {
+  if (!Array.isArray(frame.series)) return reject("meta", "meta.series is not an array")
+
+  let repaired = false
+  const series: Meta["series"] = []
+  for (const entry of frame.series) {
+    const decoded = decodeSeriesEntry(entry)
+    repaired ||= decoded.repaired
+    if (decoded.value !== null) series.push(decoded.value)
+  }
+  if (series.length === 0) return reject("meta", "meta.series announces no usable channels")
+
+  const hz = toNumber(frame.hz)
+  if (!Number.isFinite(hz) || hz <= 0) return reject("meta", `meta.hz is not a positive number: ${String(frame.hz)}`)
+  repaired ||= typeof frame.hz !== "number"
+
+  let sessionID = "unknown"
+  if (typeof frame.sessionID === "string" || typeof frame.sessionID === "number") {
+    sessionID = String(frame.sessionID)
+    repaired ||= typeof frame.sessionID !== "string"
+  } else {
+    repaired = true
+  }
+
+  const meta: Meta = { type: "meta", sessionID, series, hz }
+  if (frame.timeUnit !== undefined) {
+    if (TIME_UNITS.includes(frame.timeUnit as TimeUnit)) meta.timeUnit = frame.timeUnit as TimeUnit
+    else repaired = true
+  }
+  if (frame.startTime !== undefined) {
+    const startTime = toNumber(frame.startTime)
+    if (Number.isFinite(startTime)) meta.startTime = startTime
+    repaired ||= typeof frame.startTime !== "number" || !Number.isFinite(startTime)
+  }
+
+  if (frame.binary !== undefined) {
+    const layout = decodeBinaryLayout(frame.binary)
+    if (layout) meta.binary = layout
+    else repaired = true
+  }
+
+  return { ok: true, msg: meta, repaired }
+}
+
+function decodeBinaryLayout(raw: unknown): BinaryLayout | null {
+  if (!isFrame(raw) || !Array.isArray(raw.channels) || !SAMPLE_TYPES.includes(raw.sampleType as string)) return null
+  if (raw.channels.length === 0 || !raw.channels.every((key) => typeof key === "string" && key)) return null
+  return { channels: raw.channels as string[], sampleType: raw.sampleType as BinaryLayout["sampleType"] }
+}
+
+function decodePoint(frame: Frame): DecodeResult {
+  const t = toNumber(frame.t)
+  if (!Number.isFinite(t)) return reject("point", `point.t is not a number: ${String(frame.t)}`)
+
+  let repaired = typeof frame.t !== "number"
+  let channels = 0
+  const point: Point = { type: "point", t }
+
+  if (frame.seq !== undefined) {
+    const seq = toNumber(frame.seq)
+    if (Number.isInteger(seq) && seq >= 0) point.seq = seq
+    repaired ||= typeof frame.seq !== "number" || point.seq === undefined
+  }
+
+  for (const [key, raw] of Object.entries(frame)) {
+    if (key === "type" || key === "t" || key === "seq") continue
+    const value = toNumber(raw)
+    if (Number.isFinite(value)) {
+      point[key] = value
+      channels++
+      repaired ||= typeof raw !== "number"
+    } else {
+      // drop the bad channel but keep the rest of the sample
+      repaired = true
+    }
+  }
+  if (channels === 0) return reject("point", "point carries no numeric channel values")
+
+  return { ok: true, msg: point, repaired }
+}
+
+function decodeSamples(frame: Frame): DecodeResult {
+  if (typeof frame.channel !== "string" || !frame.channel) return reject("samples", "samples.channel is missing")
+  if (!Array.isArray(frame.values)) return reject("samples", "samples.values is not an array")
+
+  const t0 = toNumber(frame.t0)
+  if (!Number.isFinite(t0)) return reject("samples", `samples.t0 is not a number: ${String(frame.t0)}`)
+  const hz = toNumber(frame.hz)
+  if (!Number.isFinite(hz) || hz <= 0) return reject("samples", `samples.hz is not a positive number: ${String(frame.hz)}`)
+
+  let repaired = typeof frame.t0 !== "number" || typeof frame.hz !== "number"
+  // bad values become NaN so the ones after them keep their place in time
+  const values = frame.values.map((raw) => {
+    const value = toNumber(raw)
+    repaired ||= typeof raw !== "number" || !Number.isFinite(value)
+    return Number.isFinite(value) ? value : NaN
+  })
+
+  const samples: Samples = { type: "samples", channel: frame.channel, t0, hz, values }
+  return { ok: true, msg: samples, repaired }
+}
+
+function decodeEnd(frame: Frame): DecodeResult {
+  const end: End = { type: "end" }
+  if (typeof frame.reason === "string") end.reason = frame.reason
+  return { ok: true, msg: end, repaired: frame.reason !== undefined && typeof frame.reason !== "string" }
+}
+
+// validates an already-parsed frame against the Meta | Point | End union, repairing what it can
+export function decodeMessage(frame: unknown): DecodeResult {
+  if (!isFrame(frame)) return reject("unknown", "frame is not an object")
+
+  switch (frame.type) {
+    case "meta":
+      return decodeMeta(frame)
+    case "point":
+      return decodePoint(frame)
+    case "samples":
+      return decodeSamples(frame)
+    case "end":
+      return decodeEnd(frame)
+    default:
+      return reject("unknown", `unknown frame type: ${String(frame.type)}`)
+  }
+}
+
+// stateful wrapper around decodeMessage that keeps running counts for the protocol-health indicator
+export function createFrameDecoder() {
+  let stats = emptyStats()
+  // binary frames can only be read once a Meta has announced their layout
+  let layout: BinaryLayout | null = null
+
+  const fail = (error: FrameErrorType, reason: string) => {
+    stats.received++
+    stats.rejected++
+    stats.errors[error]++
+    stats.lastError = reason
+  }
+
+  return {
+    // JSON text -> object or array of objects, or null (and a counted parse error) for anything else
+    parse(text: string): Frame | unknown[] | null {
+      stats.payloads++
+      try {
+        const frame: unknown = JSON.parse(text)
+        if (isFrame(frame) || Array.isArray(frame)) return frame
+        fail("parse", "frame is not a JSON object or array")
+      } catch (error) {
+        fail("parse", error instanceof Error ? error.message : "invalid JSON")
+      }
+      return null
+    },
+
+    decode(frame: unknown): telemetryMsg | null {
+      const result = decodeMessage(frame)
+      if (!result.ok) {
+        fail(result.error, result.reason)
+        return null
+      }
+      stats.received++
+      stats.accepted++
+      if (result.repaired) stats.repaired++
+      if (result.msg.type === "meta") layout = result.msg.binary ?? null
+      return result.msg
+    },
+
+    decodeBinary(buffer: ArrayBuffer): Point[] | null {
+      stats.payloads++
+      if (!layout) {
+        fail("binary", "binary frame arrived before a Meta announced its layout")
+        return null
+      }
+      const result = decodeBinaryFrame(buffer, layout)
+      if (!result.ok) {
+        fail("binary", result.reason)
+        return null
+      }
+      stats.received++
+      stats.accepted++
+      return result.points
+    },
+
+    stats(): DecoderStats {
+      return { ...stats, errors: { ...stats.errors } }
+    },
+
+    reset() {
+      stats = emptyStats()
+      layout = null
+    },
+  }
+}
+
+export type FrameDecoder = ReturnType<typeof createFrameDecoder>
+
+export function totalErrors(stats: DecoderStats): number {
+  return Object.values(stats.errors).reduce((sum, n) => sum + n, 0)
+}
@@ -0,0 +1,158 @@
+import type { ChannelColumns, SeriesColumns } from "@/lib/telemetry/columns"
+import { bucketsToRows } from "@/lib/telemetry/pyramid"
+import type { StoreWindow, TelemetryStore } from "@/lib/telemetry/store"
+
+export type DecimationMode = "lttb" | "m4" | "minmax"
+
+export const DECIMATION_MODES: { value: DecimationMode; label: string }[] = [
+  { value: "minmax", label: "Min/Max" },
+  { value: "m4", label: "M4" },
+  { value: "lttb", label: "LTTB" },
+]
+
+// each channel's samples for the chart plus how many there are in all, which is what actually gets drawn
+export interface Decimated {
+  series: SeriesColumns
+  points: number
+}
+
+// one channel's samples in the window as contiguous arrays, skipping rows without a value
+function channelSeries(window: StoreWindow, key: string): ChannelColumns {
+  const t = new Float64Array(window.length)
+  const v = new Float64Array(window.length)
+  let n = 0
+  for (const segment of window.segments) {
+    const values = segment.columns[key]
+    if (!values) continue
+    for (let i = 0; i < values.length; i++) {
+      if (Number.isNaN(values[i])) continue
+      t[n] = segment.time[i]
+      v[n] = values[i]
+      n++
+    }
+  }
+  return { t: t.subarray(0, n), v: v.subarray(0, n) }
+}
+
+// Largest-Triangle-Three-Buckets: indices of `threshold` samples that keep the visual shape of the line
+export function lttb(t: ArrayLike<number>, v: ArrayLike<number>, threshold: number): number[] {
+  const n = t.length
+  if (n <= threshold || threshold <= 2) return Array.from({ length: n }, (_, i) => i)
+
+  const bucketSize = (n - 2) / (threshold - 2)
+  const picked = [0]
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1
+    const end = Math.floor((bucket + 1) * bucketSize) + 1
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, n)
+
+    // the next bucket's average is the third corner of the triangle
+    let avgT = 0
+    let avgV = 0
+    for (let j = end; j < nextEnd; j++) {
+      avgT += t[j]
+      avgV += v[j]
+    }
+    const count = nextEnd - end
+    if (count > 0) {
+      avgT /= count
+      avgV /= count
+    } else {
+      avgT = t[n - 1]
+      avgV = v[n - 1]
+    }
+
+    const prev = picked[picked.length - 1]
+    let maxArea = -1
+    let maxIndex = start
+    for (let j = start; j < end; j++) {
+      const area = Math.abs((t[prev] - avgT) * (v[j] - v[prev]) - (t[prev] - t[j]) * (avgV - v[prev]))
+      if (area > maxArea) {
+        maxArea = area
+        maxIndex = j
+      }
+    }
+    picked.push(maxIndex)
+  }
+
+  picked.push(n - 1)
+  return picked
+}
+
+// M4: the first, last, smallest and largest sample of every pixel column, which reproduces the line exactly
+export function m4(t: ArrayLike<number>, v: ArrayLike<number>, pixels: number): number[] {
+  const n = t.length
+  if (n <= pixels * 4) return Array.from({ length: n }, (_, i) => i)
+
+  const t0 = t[0]
+  const span = t[n - 1] - t0 || 1
+  const picked: number[] = []
+  let i = 0
+  while (i < n) {
+    const column = Math.min(pixels - 1, Math.floor(((t[i] - t0) / span) * pixels))
+    const first = i
+    let min = i
+    let max = i
+    while (i < n && Math.min(pixels - 1, Math.floor(((t[i] - t0) / span) * pixels)) === column) {
+      if (v[i] < v[min]) min = i
+      if (v[i] > v[max]) max = i
+      i++
+    }
+    const last = i - 1
+    for (const index of [first, min, max, last].sort((a, b) => a - b)) {
+      if (picked[picked.length - 1] !== index) picked.push(index)
+    }
+  }
+  return picked
+}
+
+const countPoints = (series: SeriesColumns) => Object.values(series).reduce((sum, { t }) => sum + t.length, 0)
+
+// every sample of each channel in the window, for windows small enough to draw as they are
+export function rawWindow(window: StoreWindow, keys: string[]): Decimated {
+  const series: SeriesColumns = {}
+  for (const key of keys) {
+    // copied so each array owns its buffer and only that much is transferred
+    const { t, v } = channelSeries(window, key)
+    series[key] = { t: t.slice(), v: v.slice() }
+  }
+  return { series, points: countPoints(series) }
+}
+
+// decimates every channel in `keys` on its own to about `pixels` columns, each keeping its own timestamps.
+// Min/max reads the store's pyramid and never touches the raw rows; LTTB and M4 scan the window's columns.
+export function decimateWindow(
+  store: TelemetryStore,
+  window: StoreWindow,
+  keys: string[],
+  pixels: number,
+  mode: DecimationMode,
+): Decimated {
+  const series: SeriesColumns = {}
+
+  if (mode === "minmax") {
+    const rows = bucketsToRows(store.aggregate(window, pixels), keys)
+    for (const key of keys) {
+      const t: number[] = []
+      const v: number[] = []
+      for (const row of rows) {
+        if (row[key] === undefined) continue
+        t.push(row.t)
+        v.push(row[key])
+      }
+      series[key] = { t: Float64Array.from(t), v: Float64Array.from(v) }
+    }
+    return { series, points: countPoints(series) }
+  }
+
+  for (const key of keys) {
+    const { t, v } = channelSeries(window, key)
+    const picked = mode === "lttb" ? lttb(t, v, pixels) : m4(t, v, pixels)
+    series[key] = {
+      t: Float64Array.from(picked, (i) => t[i]),
+      v: Float64Array.from(picked, (i) => v[i]),
+    }
+  }
+  return { series, points: countPoints(series) }
+}
@@ -0,0 +1,93 @@
+import type { ChannelColumns } from "@/lib/telemetry/columns"
+
+// a hole in the stream, between the last sample before it and the first one after (offsets in s)
+export interface Gap {
+  start: number
+  end: number
+}
+
+// running link-quality counters for one session
+export interface LinkStats {
+  received: number
+  dropped: number
+  lastSeq: number | null
+  lastT: number | null
+}
+
+// samples further apart than this many sample periods count as a gap
+const GAP_FACTOR = 1.5
+
+export function createLinkStats(): LinkStats {
+  return { received: 0, dropped: 0, lastSeq: null, lastT: null }
+}
+
+// counts received and dropped samples and reports the gaps in a batch of in-order samples.
+// Missing sequence numbers are exact drops; without them, a time gap is converted into an estimate at the nominal rate.
+export function trackSamples(
+  stats: LinkStats,
+  samples: { t: number; seq?: number }[],
+  hz: number,
+): { stats: LinkStats; gaps: Gap[] } {
+  const maxSpacing = hz > 0 ? GAP_FACTOR / hz : Infinity
+  const gaps: Gap[] = []
+  let { received, dropped, lastSeq, lastT } = stats
+
+  for (const sample of samples) {
+    received++
+    let isGap = false
+
+    if (sample.seq !== undefined && lastSeq !== null && sample.seq > lastSeq + 1) {
+      dropped += sample.seq - lastSeq - 1
+      isGap = true
+    }
+    if (lastT !== null && sample.t - lastT > maxSpacing) {
+      if (sample.seq === undefined || lastSeq === null) {
+        dropped += Math.max(0, Math.round((sample.t - lastT) * hz) - 1)
+      }
+      isGap = true
+    }
+    if (isGap && lastT !== null) {
+      gaps.push({ start: lastT, end: sample.t })
+    }
+
+    if (sample.seq !== undefined) lastSeq = Math.max(lastSeq ?? sample.seq, sample.seq)
+    lastT = sample.t
+  }
+
+  return { stats: { received, dropped, lastSeq, lastT }, gaps }
+}
+
+// inserts a break (NaN) inside every gap in one channel's samples so its line stops there instead of drawing
+// across. Gaps must be in time order; a break goes between any two samples that span a whole gap, which also
+// covers decimated samples whose timestamps are bucket edges rather than the samples bordering the gap.
+export function withGapBreaks(channel: ChannelColumns, gaps: Gap[]): ChannelColumns {
+  if (gaps.length === 0 || channel.t.length < 2) return channel
+  const t: number[] = [channel.t[0]]
+  const v: number[] = [channel.v[0]]
+  let g = 0
+  for (let i = 1; i < channel.t.length; i++) {
+    const prev = channel.t[i - 1]
+    while (g < gaps.length && gaps[g].start < prev) g++
+    if (g < gaps.length && gaps[g].end <= channel.t[i]) {
+      t.push((prev + channel.t[i]) / 2)
+      v.push(NaN)
+    }
+    t.push(channel.t[i])
+    v.push(channel.v[i])
+  }
+  return { t: Float64Array.from(t), v: Float64Array.from(v) }
+}
+
+// a late sample landing inside a known gap shrinks or splits it
+export function fillGap(gaps: Gap[], t: number, hz: number): { gaps: Gap[]; filled: boolean } {
+  const index = gaps.findIndex((gap) => gap.start < t && t < gap.end)
+  if (index === -1) return { gaps, filled: false }
+
+  const maxSpacing = hz > 0 ? GAP_FACTOR / hz : Infinity
+  const { start, end } = gaps[index]
+  const remaining = [
+    { start, end: t },
+    { start: t, end },
+  ].filter((gap) => gap.end - gap.start > maxSpacing)
+  return { gaps: [...gaps.slice(0, index), ...remaining, ...gaps.slice(index + 1)], filled: true }
+}
@@ -0,0 +1,65 @@
+import type { Interpolation } from "@/lib/telemetry/align"
+import type { TelemetryStore } from "@/lib/telemetry/store"
+
+// one channel between measurement cursors A and B; null where the channel has no value
+export interface Measurement {
+  a: number | null
+  b: number | null
+  min: number | null
+  max: number | null
+  mean: number | null
+}
+
+// the channel's value at t, resampled like alignRows does: empty before its first sample, held past its last
+function valueAt(store: TelemetryStore, key: string, t: number, interpolation: Interpolation): number | null {
+  let prev = store.upperBound(t) - 1
+  while (prev >= 0 && Number.isNaN(store.valueAt(key, prev))) prev--
+  if (prev < 0) return null
+  const before = store.valueAt(key, prev)
+  const t0 = store.timeAt(prev)
+  if (interpolation === "hold" || t0 === t) return before
+
+  let next = prev + 1
+  while (next < store.length && Number.isNaN(store.valueAt(key, next))) next++
+  if (next >= store.length) return before
+  const t1 = store.timeAt(next)
+  return before + (store.valueAt(key, next) - before) * ((t - t0) / (t1 - t0))
+}
+
+// values at both cursors and the spread of the samples between them, per channel; a and b may be in any order
+export function measureBetween(
+  store: TelemetryStore,
+  a: number,
+  b: number,
+  keys: string[],
+  interpolation: Record<string, Interpolation>,
+): Record<string, Measurement> {
+  const between = store.sliceByTime(Math.min(a, b), Math.max(a, b))
+  const result: Record<string, Measurement> = {}
+  for (const key of keys) {
+    let min = Infinity
+    let max = -Infinity
+    let sum = 0
+    let count = 0
+    for (const segment of between.segments) {
+      const values = segment.columns[key]
+      if (!values) continue
+      for (const value of values) {
+        if (Number.isNaN(value)) continue
+        if (value < min) min = value
+        if (value > max) max = value
+        sum += value
+        count++
+      }
+    }
+    const mode = interpolation[key] ?? "linear"
+    result[key] = {
+      a: valueAt(store, key, a, mode),
+      b: valueAt(store, key, b, mode),
+      min: count > 0 ? min : null,
+      max: count > 0 ? max : null,
+      mean: count > 0 ? sum / count : null,
+    }
+  }
+  return result
+}
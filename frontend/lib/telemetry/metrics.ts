@@ -0,0 +1,68 @@
+import type { Channel } from "@/lib/telemetry/channels"
+import type { StoreWindow } from "@/lib/telemetry/store"
+import { isOutside, type Limits } from "@/lib/telemetry/thresholds"
+
+export interface KPIMetrics {
+  count: number // samples in the window; the other fields mean nothing when it is 0
+  avg: number
+  min: number
+  max: number
+  last: number
+  timeOutsideWarning: number // s, each sample outside the limits counting until the channel's next sample
+  exceedances: number // times the channel left its warning limits
+}
+
+export type KPIData = Record<string, KPIMetrics>
+
+export const EMPTY_METRICS: KPIMetrics = { count: 0, avg: 0, min: 0, max: 0, last: 0, timeOutsideWarning: 0, exceedances: 0 }
+
+// metrics for one channel read straight off the store's columns; rows without a value (NaN) are skipped
+function windowMetrics(window: StoreWindow, key: string, warning?: Limits): KPIMetrics {
+  let count = 0
+  let sum = 0
+  let min = Infinity
+  let max = -Infinity
+  let last = 0
+  let timeOutsideWarning = 0
+  let exceedances = 0
+  let outside = false
+  let lastT = 0
+
+  for (const segment of window.segments) {
+    const values = segment.columns[key]
+    if (!values) continue
+    for (let i = 0; i < values.length; i++) {
+      const val = values[i]
+      if (Number.isNaN(val)) continue
+      const t = segment.time[i]
+      if (outside) timeOutsideWarning += t - lastT
+      const wasOutside = outside
+      outside = warning !== undefined && isOutside(val, warning)
+      if (outside && !wasOutside) exceedances++
+      count++
+      sum += val
+      if (val < min) min = val
+      if (val > max) max = val
+      last = val
+      lastT = t
+    }
+  }
+
+  return count === 0 ? EMPTY_METRICS : { count, avg: sum / count, min, max, last, timeOutsideWarning, exceedances }
+}
+
+// metrics for every channel over a window of the store; channels switched off get EMPTY_METRICS.
+// Exceedances are counted against `warning`, the limits per channel key, for channels that have them.
+export function computeKpis(
+  window: StoreWindow,
+  channels: Channel[],
+  enabled?: Record<string, boolean>,
+  warning: Record<string, Limits> = {},
+): KPIData {
+  const kpis: KPIData = {}
+  for (const channel of channels) {
+    kpis[channel.key] =
+      enabled && !enabled[channel.key] ? EMPTY_METRICS : windowMetrics(window, channel.key, warning[channel.key])
+  }
+  return kpis
+}
@@ -0,0 +1,219 @@
+import type { ValueRange } from "@/lib/telemetry/axes"
+import type { TelemetryPoint } from "@/lib/types/telemtery"
+
+// summary of one channel's samples inside a bucket
+export interface Aggregate {
+  min: number
+  max: number
+  mean: number
+}
+
+// a run of consecutive rows summarized per channel; channels without samples in the run are absent
+export interface Bucket {
+  t0: number
+  t1: number
+  values: Record<string, Aggregate>
+}
+
+interface LevelColumn {
+  min: Float64Array
+  max: Float64Array
+  sum: Float64Array
+  count: Float64Array
+}
+
+// every bucket at a level covers `size` rows; buckets live in a ring of `slots` like the rows themselves
+interface Level {
+  size: number
+  slots: number
+  t0: Float64Array // NaN while the bucket is empty
+  t1: Float64Array
+  columns: Map<string, LevelColumn>
+}
+
+// Min/max/sum/count per channel over buckets of 2, 4, 8, ... rows, kept up to date as rows are appended.
+// Rows are addressed by their absolute number (rows ever appended), so a bucket never moves when the ring
+// buffer overwrites its oldest rows; the owner only has to say which rows are still alive.
+export function createPyramid(capacity: number) {
+  const levels: Level[] = []
+  for (let size = 2; size <= capacity; size *= 2) {
+    const slots = Math.ceil(capacity / size) + 1
+    levels.push({ size, slots, t0: new Float64Array(slots).fill(NaN), t1: new Float64Array(slots), columns: new Map() })
+  }
+
+  const column = (level: Level, key: string) => {
+    let values = level.columns.get(key)
+    if (!values) {
+      values = {
+        min: new Float64Array(level.slots).fill(Infinity),
+        max: new Float64Array(level.slots).fill(-Infinity),
+        sum: new Float64Array(level.slots),
+        count: new Float64Array(level.slots),
+      }
+      level.columns.set(key, values)
+    }
+    return values
+  }
+
+  const resetBucket = (level: Level, slot: number) => {
+    level.t0[slot] = NaN
+    level.t1[slot] = NaN
+    for (const values of level.columns.values()) {
+      values.min[slot] = Infinity
+      values.max[slot] = -Infinity
+      values.sum[slot] = 0
+      values.count[slot] = 0
+    }
+  }
+
+  const addRow = (level: Level, slot: number, point: TelemetryPoint) => {
+    if (Number.isNaN(level.t0[slot])) level.t0[slot] = point.t
+    level.t1[slot] = point.t
+    for (const key in point) {
+      if (key === "t") continue
+      const value = point[key]
+      const values = column(level, key)
+      if (value < values.min[slot]) values.min[slot] = value
+      if (value > values.max[slot]) values.max[slot] = value
+      values.sum[slot] += value
+      values.count[slot]++
+    }
+  }
+
+  // folds a bucket of the level below into a bucket of this one
+  const merge = (level: Level, slot: number, below: Level, child: number) => {
+    if (Number.isNaN(below.t0[child])) return
+    if (Number.isNaN(level.t0[slot])) level.t0[slot] = below.t0[child]
+    level.t1[slot] = below.t1[child]
+    below.columns.forEach((source, key) => {
+      if (source.count[child] === 0) return
+      const values = column(level, key)
+      if (source.min[child] < values.min[slot]) values.min[slot] = source.min[child]
+      if (source.max[child] > values.max[slot]) values.max[slot] = source.max[child]
+      values.sum[slot] += source.sum[child]
+      values.count[slot] += source.count[child]
+    })
+  }
+
+  return {
+    // the level whose buckets hold the most rows without exceeding `rows`, -1 when even pairs are too coarse
+    levelFor(rows: number): number {
+      let index = -1
+      while (index + 1 < levels.length && levels[index + 1].size <= rows) index++
+      return index
+    },
+
+    sizeOf(level: number): number {
+      return levels[level].size
+    },
+
+    // `row` must be the newest row; it opens a fresh bucket whenever it is the first of one
+    add(row: number, point: TelemetryPoint) {
+      for (const level of levels) {
+        const slot = Math.floor(row / level.size) % level.slots
+        if (row % level.size === 0) resetBucket(level, slot)
+        addRow(level, slot, point)
+      }
+    },
+
+    // recomputes every bucket holding rows [from, to) after those rows changed; rows before `first` are gone.
+    // Pairs are rebuilt from the rows, every level above from the one below.
+    rebuild(from: number, to: number, first: number, rowAt: (row: number) => TelemetryPoint) {
+      from = Math.max(from, first)
+      levels.forEach((level, index) => {
+        const below = levels[index - 1]
+        for (let bucket = Math.floor(from / level.size); bucket * level.size < to; bucket++) {
+          const slot = bucket % level.slots
+          resetBucket(level, slot)
+          if (!below) {
+            const end = Math.min(to, (bucket + 1) * level.size)
+            for (let row = Math.max(first, bucket * level.size); row < end; row++) addRow(level, slot, rowAt(row))
+            continue
+          }
+          for (let child = bucket * 2; child < bucket * 2 + 2; child++) {
+            const alive = child >= Math.floor(first / below.size) && child * below.size < to
+            if (alive) merge(level, slot, below, child % below.slots)
+          }
+        }
+      })
+    },
+
+    // the bucket of `level` with the given absolute number
+    bucket(level: number, bucket: number): Bucket | null {
+      const { t0, t1, slots, columns } = levels[level]
+      const slot = bucket % slots
+      if (Number.isNaN(t0[slot])) return null
+      const values: Record<string, Aggregate> = {}
+      columns.forEach((column, key) => {
+        const count = column.count[slot]
+        if (count > 0) values[key] = { min: column.min[slot], max: column.max[slot], mean: column.sum[slot] / count }
+      })
+      return { t0: t0[slot], t1: t1[slot], values }
+    },
+
+    reset() {
+      for (const level of levels) {
+        level.t0.fill(NaN)
+        level.columns.clear()
+      }
+    },
+  }
+}
+
+export type Pyramid = ReturnType<typeof createPyramid>
+
+// summarizes rows directly, for the partial buckets at the edges of a query
+export function aggregateRows(rows: TelemetryPoint[]): Bucket | null {
+  if (rows.length === 0) return null
+  const sums: Record<string, { min: number; max: number; sum: number; count: number }> = {}
+  for (const row of rows) {
+    for (const key in row) {
+      if (key === "t") continue
+      const value = row[key]
+      const acc = (sums[key] ??= { min: value, max: value, sum: 0, count: 0 })
+      if (value < acc.min) acc.min = value
+      if (value > acc.max) acc.max = value
+      acc.sum += value
+      acc.count++
+    }
+  }
+  const values: Record<string, Aggregate> = {}
+  for (const key in sums) values[key] = { min: sums[key].min, max: sums[key].max, mean: sums[key].sum / sums[key].count }
+  return { t0: rows[0].t, t1: rows[rows.length - 1].t, values }
+}
+
+// smallest and largest value of every channel across the buckets
+export function bucketExtents(buckets: Bucket[], keys: string[]): Record<string, ValueRange> {
+  const extents: Record<string, ValueRange> = {}
+  for (const { values } of buckets) {
+    for (const key of keys) {
+      const value = values[key]
+      if (!value) continue
+      const extent = extents[key]
+      if (!extent) extents[key] = { min: value.min, max: value.max }
+      else {
+        extent.min = Math.min(extent.min, value.min)
+        extent.max = Math.max(extent.max, value.max)
+      }
+    }
+  }
+  return extents
+}
+
+// draws each bucket as its envelope: a row with every channel's minimum at the bucket start and one with the
+// maximum at its end. A bucket is at most a pixel wide, so which extreme came first does not show.
+export function bucketsToRows(buckets: Bucket[], keys?: string[]): TelemetryPoint[] {
+  const rows: TelemetryPoint[] = []
+  for (const { t0, t1, values } of buckets) {
+    const low: TelemetryPoint = { t: t0 }
+    const high: TelemetryPoint = { t: t1 }
+    for (const key of keys ?? Object.keys(values)) {
+      if (!values[key]) continue
+      low[key] = values[key].min
+      high[key] = values[key].max
+    }
+    rows.push(low)
+    if (t1 > t0) rows.push(high)
+  }
+  return rows
+}
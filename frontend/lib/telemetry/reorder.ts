@@ -0,0 +1,117 @@
+// anything the reorder buffer can hold: a timestamp (s), an optional sequence number and, for samples without
+// one, what tells apart samples of different channels taken at the same instant
+export interface Orderable {
+  t: number
+  seq?: number
+  source?: string
+}
+
+export interface ReorderStats {
+  reordered: number // arrived out of order but were sorted inside the window
+  late: number // arrived after their slot was released
+  duplicates: number // dropped as repeats of a sample already seen
+}
+
+export interface ReorderResult<T> {
+  ready: T[] // in timestamp order, after everything released before
+  late: T[] // older than what was already released; the caller inserts them in place
+}
+
+// how many sample keys are remembered for duplicate detection
+const RECENT_KEYS = 4096
+
+// a small jitter buffer: samples are held for windowMs after they arrive and released in timestamp order.
+// Samples that show up after their neighbours were released come back as `late`, repeats are dropped.
+export function createReorderBuffer<T extends Orderable>(windowMs: number) {
+  let held: { item: T; arrivedAt: number }[] = []
+  let lastReleasedT = -Infinity
+  let stats: ReorderStats = { reordered: 0, late: 0, duplicates: 0 }
+  const recent = new Set<string>()
+  const recentOrder: string[] = []
+
+  const keyOf = (item: T) => (item.seq !== undefined ? `#${item.seq}` : `@${item.t}:${item.source ?? ""}`)
+
+  const remember = (key: string) => {
+    recent.add(key)
+    recentOrder.push(key)
+    if (recentOrder.length > RECENT_KEYS) recent.delete(recentOrder.shift()!)
+  }
+
+  // index of the first held sample with a later timestamp (binary search)
+  const insertionIndex = (t: number) => {
+    let lo = 0
+    let hi = held.length
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1
+      if (held[mid].item.t <= t) lo = mid + 1
+      else hi = mid
+    }
+    return lo
+  }
+
+  const release = (count: number): T[] => {
+    const released = held.slice(0, count).map((h) => h.item)
+    held = held.slice(count)
+    if (released.length > 0) lastReleasedT = released[released.length - 1].t
+    return released
+  }
+
+  // everything up to the last sample whose window has passed; earlier timestamps go with it to keep order
+  const releaseDue = (now = Date.now()): T[] => {
+    let count = 0
+    for (let i = held.length - 1; i >= 0; i--) {
+      if (now - held[i].arrivedAt >= windowMs) {
+        count = i + 1
+        break
+      }
+    }
+    return release(count)
+  }
+
+  return {
+    push(items: T[], now = Date.now()): ReorderResult<T> {
+      const late: T[] = []
+      for (const item of items) {
+        const key = keyOf(item)
+        if (recent.has(key)) {
+          stats.duplicates++
+          continue
+        }
+        remember(key)
+        if (item.t < lastReleasedT) {
+          stats.late++
+          late.push(item)
+          continue
+        }
+        const index = insertionIndex(item.t)
+        if (index < held.length) stats.reordered++
+        held.splice(index, 0, { item, arrivedAt: now })
+      }
+      return { ready: releaseDue(now), late }
+    },
+
+    releaseDue,
+
+    flush(): T[] {
+      return release(held.length)
+    },
+
+    size(): number {
+      return held.length
+    },
+
+    stats(): ReorderStats {
+      return { ...stats }
+    },
+
+    reset() {
+      held = []
+      lastReleasedT = -Infinity
+      stats = { reordered: 0, late: 0, duplicates: 0 }
+      recent.clear()
+      recentOrder.length = 0
+    },
+  }
+}
+
+export type ReorderBuffer<T extends Orderable> = ReturnType<typeof createReorderBuffer<T>>
@@ -0,0 +1,249 @@
+import { samplesToPoints } from "@/lib/telemetry/align"
+import { buildChannelRegistry, type Channel } from "@/lib/telemetry/channels"
+import { createLinkStats, fillGap, trackSamples, type Gap, type LinkStats } from "@/lib/telemetry/gaps"
+import { computeKpis, type KPIData } from "@/lib/telemetry/metrics"
+import { createReorderBuffer, type ReorderStats } from "@/lib/telemetry/reorder"
+import { createTelemetryStore, type TimeRange } from "@/lib/telemetry/store"
+import { addLapStart, anchorTimeBase, createTimeBase, toOffset, type TimeBase } from "@/lib/telemetry/timebase"
+import type { Meta, Point, Samples, TelemetryPoint } from "@/lib/types/telemtery"
+
+// KPIs frozen over the whole buffer when a stream ends
+export interface SessionSummary {
+  samples: number
+  duration: number // seconds
+  kpis: KPIData
+}
+
+export interface SessionState {
+  status: "idle" | "live" | "complete"
+  reason?: string
+  endedAt?: Date
+  summary?: SessionSummary
+}
+
+// everything the UI shows about the session, without the samples themselves
+export interface SessionSnapshot {
+  playing: boolean
+  channels: Channel[]
+  hz: number
+  session: SessionState
+  sessionId: string | null // as announced by the stream's Meta
+  startTime: number | null // wall-clock ms, only when the stream's Meta announced one
+  timeBase: TimeBase
+  linkStats: LinkStats
+  gaps: Gap[]
+  reorderStats: ReorderStats
+  length: number // rows in the buffer
+  range: TimeRange | null
+  version: number // the store's version, bumped on every change to the rows
+}
+
+export interface SessionOptions {
+  hz: number
+  maxPoints: number
+  reorderWindowMs: number
+}
+
+// a sample on its way into the buffer: normalized point plus the sequence number it arrived with, or for rows
+// unrolled from a Samples block, the channel they came from
+interface Incoming {
+  t: number
+  seq?: number
+  source?: string
+  point: TelemetryPoint
+}
+
+// oldest gaps are forgotten past this many
+const MAX_GAPS = 10000
+
+export function emptySnapshot(hz: number): SessionSnapshot {
+  return {
+    playing: false,
+    channels: [],
+    hz,
+    session: { status: "idle" },
+    sessionId: null,
+    startTime: null,
+    timeBase: createTimeBase(),
+    linkStats: createLinkStats(),
+    gaps: [],
+    reorderStats: { reordered: 0, late: 0, duplicates: 0 },
+    length: 0,
+    range: null,
+    version: 0,
+  }
+}
+
+// keep only the numeric channel values of a wire Point, with t moved onto the session time base
+function toTelemetryPoint(p: Point, timeBase: TimeBase): TelemetryPoint {
+  const point: TelemetryPoint = { t: toOffset(timeBase, p.t) }
+  for (const [key, value] of Object.entries(p)) {
+    if (key === "type" || key === "t" || key === "seq") continue
+    if (typeof value === "number" && Number.isFinite(value)) point[key] = value
+  }
+  return point
+}
+
+// The ingestion pipeline for one telemetry session, free of React and of any transport: Meta configures the
+// channels and time base, samples pass through the reorder buffer into the store while laps, link stats and
+// gaps are tracked on the ordered stream. `onChange` fires after anything in the snapshot changed.
+export function createTelemetrySession(options: SessionOptions, onChange: () => void) {
+  const store = createTelemetryStore(options.maxPoints)
+  const reorder = createReorderBuffer<Incoming>(options.reorderWindowMs)
+  let snapshot = emptySnapshot(options.hz)
+  let releaseTimer: ReturnType<typeof setTimeout> | null = null
+  let lastLap: number | null = null
+  let lastOffset = 0
+  // the unit and start time the stream announced, which outlive a clear
+  let announced = createTimeBase()
+
+  const update = (changes: Partial<SessionSnapshot>) => {
+    snapshot = { ...snapshot, ...changes }
+    onChange()
+  }
+
+  // appends samples released by the reorder buffer
+  const appendOrdered = (ready: Incoming[]) => {
+    if (ready.length === 0) return
+    let timeBase = snapshot.timeBase
+    // a "lap" counter channel, when the stream has one, marks lap boundaries
+    for (const { point } of ready) {
+      if (point.lap === undefined) continue
+      if (lastLap !== null && point.lap !== lastLap) timeBase = addLapStart(timeBase, point.t)
+      lastLap = point.lap
+    }
+    lastOffset = ready[ready.length - 1].t
+
+    // link stats follow the primary stream; rows unrolled from Samples blocks run at their own channel's rate
+    const tracked = trackSamples(snapshot.linkStats, ready.filter((r) => r.source === undefined), snapshot.hz)
+    const gaps = tracked.gaps.length > 0 ? [...snapshot.gaps, ...tracked.gaps].slice(-MAX_GAPS) : snapshot.gaps
+    store.append(ready.map((r) => r.point))
+    update({ timeBase, linkStats: tracked.stats, gaps })
+  }
+
+  // samples older than what was already released go into the buffer at their timestamp
+  const insertLate = (late: Incoming[]) => {
+    if (late.length === 0) return
+    let { gaps, linkStats } = snapshot
+    const primary = late.filter((l) => l.source === undefined)
+    for (const { t } of primary) {
+      const filled = fillGap(gaps, t, snapshot.hz)
+      if (!filled.filled) continue
+      gaps = filled.gaps
+      linkStats = { ...linkStats, dropped: Math.max(0, linkStats.dropped - 1) }
+    }
+    store.insert(late.map((l) => l.point))
+    update({ gaps, linkStats: { ...linkStats, received: linkStats.received + primary.length } })
+  }
+
+  // release whatever has sat out its window, then come back for the rest
+  const drainReorder = () => {
+    releaseTimer = null
+    appendOrdered(reorder.releaseDue())
+    update({ reorderStats: reorder.stats() })
+    if (reorder.size() > 0) releaseTimer = setTimeout(drainReorder, options.reorderWindowMs)
+  }
+
+  const stopDrain = () => {
+    if (releaseTimer !== null) {
+      clearTimeout(releaseTimer)
+      releaseTimer = null
+    }
+  }
+
+  return {
+    store,
+
+    snapshot(): SessionSnapshot {
+      return { ...snapshot, length: store.length, range: store.rangeOf(), version: store.getVersion() }
+    },
+
+    // rebuild the channel registry from the series the stream announces
+    applyMeta(meta: Meta) {
+      const changes: Partial<SessionSnapshot> = {
+        channels: buildChannelRegistry(meta),
+        sessionId: meta.sessionID,
+        startTime: meta.startTime ?? null,
+      }
+      if (meta.hz > 0) changes.hz = meta.hz
+      // units and start time only apply to a session that has not seen its first sample yet
+      announced = createTimeBase(meta.timeUnit, meta.startTime ?? null)
+      if (!snapshot.timeBase.anchored) changes.timeBase = announced
+      update(changes)
+    },
+
+    setHz(hz: number) {
+      update({ hz })
+    },
+
+    start() {
+      update({ playing: true, session: { status: "live" } })
+    },
+
+    pause() {
+      update({ playing: false })
+    },
+
+    // takes rows of the primary stream and per-channel Samples blocks, which are unrolled into single-channel rows.
+    // Samples arriving while paused are dropped.
+    push(messages: (Point | Samples)[]) {
+      if (!snapshot.playing) return
+      const points = messages.flatMap((m): { p: Point; source?: string }[] =>
+        m.type === "samples"
+          ? samplesToPoints(m, snapshot.timeBase.unit).map((p) => ({ p, source: m.channel }))
+          : [{ p: m }],
+      )
+      if (points.length === 0) return
+      const timeBase = anchorTimeBase(snapshot.timeBase, points[0].p.t)
+      if (timeBase !== snapshot.timeBase) update({ timeBase })
+
+      const incoming = points.map(({ p, source }): Incoming => {
+        const point = toTelemetryPoint(p, timeBase)
+        return { t: point.t, seq: p.seq, source, point }
+      })
+      const { ready, late } = reorder.push(incoming)
+      appendOrdered(ready)
+      insertLate(late)
+      update({ reorderStats: reorder.stats() })
+
+      if (reorder.size() > 0 && releaseTimer === null) {
+        releaseTimer = setTimeout(drainReorder, options.reorderWindowMs)
+      }
+    },
+
+    // the stream said it is done: land what is still held, stop playback and freeze the final KPIs
+    end(reason?: string) {
+      stopDrain()
+      appendOrdered(reorder.flush())
+      const range = store.rangeOf()
+      const summary: SessionSummary = {
+        samples: store.length,
+        duration: range ? range.max - range.min : 0,
+        kpis: computeKpis(store.window(0, store.length), snapshot.channels),
+      }
+      update({ playing: false, session: { status: "complete", reason, endedAt: new Date(), summary } })
+    },
+
+    // manual lap marker at the latest sample, for streams without a lap channel
+    markLap() {
+      update({ timeBase: addLapStart(snapshot.timeBase, lastOffset) })
+    },
+
+    clear() {
+      stopDrain()
+      store.clear()
+      reorder.reset()
+      lastLap = null
+      lastOffset = 0
+      update({
+        session: { status: "idle" },
+        timeBase: announced,
+        linkStats: createLinkStats(),
+        gaps: [],
+        reorderStats: reorder.stats(),
+      })
+    },
+  }
+}
+
+export type TelemetrySession = ReturnType<typeof createTelemetrySession>
@@ -0,0 +1,275 @@
+import { aggregateRows, createPyramid, type Bucket } from "@/lib/telemetry/pyramid"
+import type { TelemetryPoint } from "@/lib/types/telemtery"
+
+// a contiguous run of the buffer: subarrays of the underlying columns, no copying
+export interface StoreSegment {
+  time: Float64Array
+  columns: Record<string, Float64Array>
+}
+
+// logical rows [start, end) of the store, as at most two segments because the buffer wraps around
+export interface StoreWindow {
+  start: number
+  end: number
+  length: number
+  segments: StoreSegment[]
+}
+
+// first and last timestamp held by the store (s)
+export interface TimeRange {
+  min: number
+  max: number
+}
+
+// columnar ring buffer for telemetry: one Float64Array for time plus one per channel (NaN where a row has no
+// value). Rows are kept in time order; once full, appending overwrites the oldest row. Listeners are told about
+// every change through a version counter, which is what React subscribes to instead of the data itself.
+// A min/max/mean pyramid over the rows is maintained alongside, so any zoom level can be summarized per pixel.
+export function createTelemetryStore(capacity: number) {
+  let time = new Float64Array(capacity)
+  const columns = new Map<string, Float64Array>()
+  const pyramid = createPyramid(capacity)
+  let head = 0 // physical index of the oldest row
+  let length = 0
+  let base = 0 // absolute number of the oldest row, counting every row ever appended
+  let version = 0
+  const listeners = new Set<() => void>()
+
+  // logical row -> physical slot
+  const slot = (i: number) => (head + i) % capacity
+
+  const column = (key: string) => {
+    let values = columns.get(key)
+    if (!values) {
+      values = new Float64Array(capacity).fill(NaN)
+      columns.set(key, values)
+    }
+    return values
+  }
+
+  const write = (physical: number, point: TelemetryPoint) => {
+    time[physical] = point.t
+    for (const values of columns.values()) values[physical] = NaN
+    for (const key in point) {
+      if (key !== "t") column(key)[physical] = point[key]
+    }
+  }
+
+  const notify = () => {
+    version++
+    listeners.forEach((listener) => listener())
+  }
+
+  // first logical row whose time is >= t (or > t when `after`)
+  const search = (t: number, after: boolean) => {
+    let lo = 0
+    let hi = length
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1
+      const value = time[slot(mid)]
+      if (value < t || (after && value === t)) lo = mid + 1
+      else hi = mid
+    }
+    return lo
+  }
+
+  const segment = (from: number, to: number): StoreSegment => {
+    const segmentColumns: Record<string, Float64Array> = {}
+    columns.forEach((values, key) => {
+      segmentColumns[key] = values.subarray(from, to)
+    })
+    return { time: time.subarray(from, to), columns: segmentColumns }
+  }
+
+  // logical row i as an object, leaving out channels it has no value for
+  const rowAt = (i: number): TelemetryPoint => {
+    const physical = slot(i)
+    const row: TelemetryPoint = { t: time[physical] }
+    columns.forEach((values, key) => {
+      if (!Number.isNaN(values[physical])) row[key] = values[physical]
+    })
+    return row
+  }
+
+  const view = (start: number, end: number): StoreWindow => {
+    start = Math.max(0, start)
+    end = Math.min(length, end)
+    if (end <= start) return { start, end: start, length: 0, segments: [] }
+
+    const from = slot(start)
+    const to = from + (end - start)
+    const segments = to <= capacity ? [segment(from, to)] : [segment(from, capacity), segment(0, to - capacity)]
+    return { start, end, length: end - start, segments }
+  }
+
+  return {
+    get length() {
+      return length
+    },
+
+    capacity,
+
+    keys(): string[] {
+      return [...columns.keys()]
+    },
+
+    // O(1) per row; rows must not be older than the newest row already stored
+    append(points: TelemetryPoint[]) {
+      if (points.length === 0) return
+      for (const point of points) {
+        pyramid.add(base + length, point)
+        if (length < capacity) {
+          write(slot(length), point)
+          length++
+        } else {
+          write(head, point)
+          head = (head + 1) % capacity
+          base++
+        }
+      }
+      notify()
+    },
+
+    // for late rows: each is placed at its timestamp, shifting newer rows up by one
+    insert(points: TelemetryPoint[]) {
+      if (points.length === 0) return
+      let changedFrom = Infinity // absolute row from which the pyramid is out of date
+      for (const point of points) {
+        let index = search(point.t, true)
+        if (length === capacity) {
+          if (index === 0) continue // older than everything we still keep
+          head = (head + 1) % capacity
+          base++
+          length--
+          index--
+        }
+        for (let i = length; i > index; i--) {
+          const to = slot(i)
+          const from = slot(i - 1)
+          time[to] = time[from]
+          for (const values of columns.values()) values[to] = values[from]
+        }
+        write(slot(index), point)
+        length++
+        changedFrom = Math.min(changedFrom, base + index)
+      }
+      if (changedFrom !== Infinity) pyramid.rebuild(changedFrom, base + length, base, (row) => rowAt(row - base))
+      notify()
+    },
+
+    clear() {
+      time = new Float64Array(capacity)
+      columns.clear()
+      pyramid.reset()
+      head = 0
+      length = 0
+      base = 0
+      notify()
+    },
+
+    timeAt(i: number): number {
+      return time[slot(i)]
+    },
+
+    // NaN when the row has no value for the channel
+    valueAt(key: string, i: number): number {
+      const values = columns.get(key)
+      return values ? values[slot(i)] : NaN
+    },
+
+    lowerBound(t: number): number {
+      return search(t, false)
+    },
+
+    upperBound(t: number): number {
+      return search(t, true)
+    },
+
+    window: view,
+
+    // time span of everything stored; rows are in time order, so these are just the two ends
+    rangeOf(): TimeRange | null {
+      if (length === 0) return null
+      return { min: time[slot(0)], max: time[slot(length - 1)] }
+    },
+
+    // rows with t0 <= t <= t1, found by binary search
+    sliceByTime(t0: number, t1: number): StoreWindow {
+      return view(search(t0, false), search(t1, true))
+    },
+
+    // index of the row closest in time to t, -1 when empty
+    nearest(t: number): number {
+      if (length === 0) return -1
+      const index = search(t, false)
+      if (index === 0) return 0
+      if (index === length) return length - 1
+      return t - time[slot(index - 1)] <= time[slot(index)] - t ? index - 1 : index
+    },
+
+    // materializes a window as row objects for consumers that need them, such as the chart
+    rows(window: StoreWindow): TelemetryPoint[] {
+      const rows: TelemetryPoint[] = []
+      for (const { time: times, columns: values } of window.segments) {
+        const keys = Object.keys(values)
+        for (let i = 0; i < times.length; i++) {
+          const row: TelemetryPoint = { t: times[i] }
+          for (const key of keys) {
+            const value = values[key][i]
+            if (!Number.isNaN(value)) row[key] = value
+          }
+          rows.push(row)
+        }
+      }
+      return rows
+    },
+
+    // about `buckets` summaries covering the window, one pyramid level for all of them: the coarsest whose
+    // buckets still fit that many times. Buckets cut by the window edges are summarized from the rows instead.
+    aggregate(window: StoreWindow, buckets: number): Bucket[] {
+      const level = pyramid.levelFor(Math.floor(window.length / Math.max(1, buckets)))
+      const partial = (start: number, end: number) => {
+        const rows: TelemetryPoint[] = []
+        for (let i = start; i < end; i++) rows.push(rowAt(i))
+        return aggregateRows(rows)
+      }
+
+      const result: Bucket[] = []
+      if (level === -1) {
+        for (let i = window.start; i < window.end; i++) result.push(partial(i, i + 1)!)
+        return result
+      }
+
+      const size = pyramid.sizeOf(level)
+      const first = Math.ceil((base + window.start) / size) // first bucket wholly inside the window
+      const last = Math.floor((base + window.end) / size) // one past the last one
+      if (first >= last) {
+        const whole = partial(window.start, window.end)
+        return whole ? [whole] : []
+      }
+
+      const leading = partial(window.start, first * size - base)
+      if (leading) result.push(leading)
+      for (let bucket = first; bucket < last; bucket++) {
+        const summary = pyramid.bucket(level, bucket)
+        if (summary) result.push(summary)
+      }
+      const trailing = partial(last * size - base, window.end)
+      if (trailing) result.push(trailing)
+      return result
+    },
+
+    subscribe(listener: () => void) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    getVersion(): number {
+      return version
+    },
+  }
+}
+
+export type TelemetryStore = ReturnType<typeof createTelemetryStore>
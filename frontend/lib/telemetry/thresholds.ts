@@ -0,0 +1,135 @@
+// a band a channel should stay inside; null leaves that side open
+export interface Limits {
+  min: number | null
+  max: number | null
+}
+
+// going outside `warning` counts as an exceedance, outside `critical` as an alarm
+export interface ChannelThresholds {
+  warning: Limits
+  critical: Limits
+}
+
+// limits per channel key; channels without an entry are not checked
+export type ThresholdConfig = Record<string, ChannelThresholds>
+
+export const DEFAULT_THRESHOLDS: ThresholdConfig = {
+  speed: { warning: { min: null, max: 45 }, critical: { min: null, max: 50 } }, // m/s
+  current: { warning: { min: null, max: 85 }, critical: { min: null, max: 100 } }, // A
+  temp: { warning: { min: null, max: 70 }, critical: { min: null, max: 80 } }, // °C
+}
+
+export type Severity = "ok" | "warning" | "critical"
+
+// shared by the chart bands, the shading over exceeding traces and the KPI badges
+export const SEVERITY_COLORS: Record<Exclude<Severity, "ok">, string> = {
+  warning: "#eab308",
+  critical: "#ef4444",
+}
+
+export function isOutside(value: number, limits: Limits): boolean {
+  return (limits.max !== null && value >= limits.max) || (limits.min !== null && value <= limits.min)
+}
+
+export function severityOf(value: number, thresholds: ChannelThresholds | undefined): Severity {
+  if (!thresholds) return "ok"
+  if (isOutside(value, thresholds.critical)) return "critical"
+  if (isOutside(value, thresholds.warning)) return "warning"
+  return "ok"
+}
+
+// one drawn limit: the line at `value` and the band from it outwards to `to`, or to the edge of the axis when null
+export interface ThresholdLine {
+  level: Exclude<Severity, "ok">
+  side: keyof Limits
+  value: number
+  to: number | null
+}
+
+export function thresholdLines(thresholds: ChannelThresholds): ThresholdLine[] {
+  const lines: ThresholdLine[] = []
+  for (const side of ["min", "max"] as const) {
+    const warning = thresholds.warning[side]
+    const critical = thresholds.critical[side]
+    if (warning !== null) lines.push({ level: "warning", side, value: warning, to: critical })
+    if (critical !== null) lines.push({ level: "critical", side, value: critical, to: null })
+  }
+  return lines
+}
+
+// saved configurations, one per vehicle, and the one in use
+export interface ThresholdProfiles {
+  active: string
+  profiles: Record<string, ThresholdConfig>
+}
+
+export const DEFAULT_PROFILE = "Default"
+
+export const DEFAULT_PROFILES: ThresholdProfiles = {
+  active: DEFAULT_PROFILE,
+  profiles: { [DEFAULT_PROFILE]: DEFAULT_THRESHOLDS },
+}
+
+const STORAGE_KEY = "telemetry:thresholds"
+
+const isLimit = (value: unknown) => value === null || (typeof value === "number" && Number.isFinite(value))
+
+const isLimits = (value: unknown): value is Limits => {
+  const l = value as Limits
+  return typeof l === "object" && l !== null && isLimit(l.min) && isLimit(l.max)
+}
+
+const isThresholdConfig = (value: unknown): value is ThresholdConfig =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every(
+    (t) => typeof t === "object" && t !== null && isLimits(t.warning) && isLimits(t.critical),
+  )
+
+// saved profiles, falling back to the built-in limits when nothing readable is stored
+export function loadThresholdProfiles(): ThresholdProfiles {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as ThresholdProfiles | null
+    if (!stored || typeof stored.profiles !== "object" || stored.profiles === null) return DEFAULT_PROFILES
+    const profiles = Object.fromEntries(Object.entries(stored.profiles).filter(([, config]) => isThresholdConfig(config)))
+    const names = Object.keys(profiles)
+    if (names.length === 0) return DEFAULT_PROFILES
+    return { active: names.includes(stored.active) ? stored.active : names[0], profiles }
+  } catch {
+    return DEFAULT_PROFILES
+  }
+}
+
+export function saveThresholdProfiles(profiles: ThresholdProfiles) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles))
+  } catch (error) {
+    console.error("[v0] Error saving threshold profiles:", error)
+  }
+}
+
+// the limits file the crew passes around: one profile, named after the car
+export interface ThresholdFile {
+  profile: string
+  thresholds: ThresholdConfig
+}
+
+export function thresholdsToJson(profile: string, thresholds: ThresholdConfig): string {
+  const file: ThresholdFile = { profile, thresholds }
+  return JSON.stringify(file, null, 2)
+}
+
+// throws with a message fit for showing to the user when the file isn't a limits file
+export function parseThresholdFile(text: string): ThresholdFile {
+  let file: Partial<ThresholdFile>
+  try {
+    file = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+  if (typeof file !== "object" || file === null) throw new Error("The file is not a limits file")
+  if (typeof file.profile !== "string" || file.profile.trim() === "") throw new Error("The file has no profile name")
+  if (!isThresholdConfig(file.thresholds)) throw new Error("The file's limits are not in the expected format")
+  return { profile: file.profile.trim(), thresholds: file.thresholds }
+}
@@ -0,0 +1,87 @@
+import { format } from "date-fns"
+import type { Meta } from "@/lib/types/telemtery"
+
+// units a stream may use for Point.t
+export type TimeUnit = NonNullable<Meta["timeUnit"]>
+
+// how the time axis, tooltip and exports label an offset
+export type TimeAxisMode = "relative" | "lap" | "clock"
+
+export const MS_PER_UNIT: Record<TimeUnit, number> = { s: 1000, ms: 1, us: 0.001 }
+
+// anything past this (in ms) is an epoch timestamp rather than an offset: ~2001-09-09
+const EPOCH_THRESHOLD_MS = 1e12
+
+// session start on the wall clock plus what is needed to turn raw Point.t values into offsets.
+// Buffered samples store offsets in seconds from startEpoch; everything that shows time goes through here.
+export interface TimeBase {
+  unit: TimeUnit
+  startEpoch: number | null // wall-clock ms at offset 0, null until announced or anchored
+  anchored: boolean // the first sample has been seen
+  absolute: boolean // raw timestamps are epoch times rather than offsets
+  lapStarts: number[] // offsets (s) where laps begin, ascending
+}
+
+export function createTimeBase(unit: TimeUnit = "ms", startEpoch: number | null = null): TimeBase {
+  return { unit, startEpoch, anchored: false, absolute: false, lapStarts: [] }
+}
+
+// anchors the time base on the first raw timestamp of a session; a no-op once anchored.
+// Without an announced start, an epoch timestamp starts the session and an offset is assumed to be "now".
+export function anchorTimeBase(base: TimeBase, rawT: number, now = Date.now()): TimeBase {
+  if (base.anchored) return base
+  const ms = rawT * MS_PER_UNIT[base.unit]
+  if (ms >= EPOCH_THRESHOLD_MS) {
+    return { ...base, anchored: true, absolute: true, startEpoch: base.startEpoch ?? ms }
+  }
+  return { ...base, anchored: true, absolute: false, startEpoch: base.startEpoch ?? now - ms }
+}
+
+// raw Point.t -> seconds since session start
+export function toOffset(base: TimeBase, rawT: number): number {
+  const ms = rawT * MS_PER_UNIT[base.unit]
+  return (base.absolute && base.startEpoch !== null ? ms - base.startEpoch : ms) / 1000
+}
+
+// seconds since session start -> wall-clock ms
+export function toEpoch(base: TimeBase, offset: number): number {
+  return (base.startEpoch ?? 0) + offset * 1000
+}
+
+export function addLapStart(base: TimeBase, offset: number): TimeBase {
+  if (base.lapStarts.includes(offset)) return base
+  return { ...base, lapStarts: [...base.lapStarts, offset].sort((a, b) => a - b) }
+}
+
+// lap number (1-based) and its start offset for an offset; lap 1 starts at 0
+export function lapAt(base: TimeBase, offset: number): { lap: number; start: number } {
+  let lap = 1
+  let start = 0
+  for (const lapStart of base.lapStarts) {
+    if (lapStart > offset) break
+    lap++
+    start = lapStart
+  }
+  return { lap, start }
+}
+
+function formatMinutes(seconds: number): string {
+  const sign = seconds < 0 ? "-" : ""
+  const abs = Math.abs(seconds)
+  const minutes = Math.floor(abs / 60)
+  const rest = abs - minutes * 60
+  return `${sign}${minutes}:${rest.toFixed(1).padStart(4, "0")}`
+}
+
+export function formatTime(base: TimeBase, offset: number, mode: TimeAxisMode): string {
+  switch (mode) {
+    case "relative":
+      return `${offset.toFixed(1)}s`
+    case "lap": {
+      const { lap, start } = lapAt(base, offset)
+      return `L${lap} ${formatMinutes(offset - start)}`
+    }
+    case "clock":
+      return format(new Date(toEpoch(base, offset)), "HH:mm:ss.S")
+  }
+}
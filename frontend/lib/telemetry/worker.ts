@@ -0,0 +1,311 @@
+// Telemetry worker: owns the WebSocket, decodes frames, runs the session pipeline into the store and answers
+// viewport queries with decimated columns whose buffers are transferred back to the page.
+import { createDefaultAdapterChain } from "@/lib/telemetry/adapters"
+import { alignRows } from "@/lib/telemetry/align"
+import { encodeBinaryFrame } from "@/lib/telemetry/binary"
+import type { LinkStatus, WorkerEvent, WorkerQuery, WorkerRequest } from "@/lib/telemetry/client"
+import { rowsToColumns, seriesTransferables, transferablesOf } from "@/lib/telemetry/columns"
+import { createFrameDecoder } from "@/lib/telemetry/decoder"
+import { decimateWindow, rawWindow } from "@/lib/telemetry/downsample"
+import { withGapBreaks } from "@/lib/telemetry/gaps"
+import { measureBetween } from "@/lib/telemetry/measure"
+import { computeKpis } from "@/lib/telemetry/metrics"
+import { bucketExtents } from "@/lib/telemetry/pyramid"
+import { createTelemetrySession, type TelemetrySession } from "@/lib/telemetry/session"
+import type { BinaryLayout, Hello, Meta, Point, Samples, telemetryMsg } from "@/lib/types/telemtery"
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null
+  postMessage(message: WorkerEvent, transfer?: Transferable[]): void
+}
+
+const SNAPSHOT_INTERVAL = 100 // ms between snapshots posted to the page
+const HEARTBEAT_INTERVAL = 5000 // ms
+const MAX_RECONNECTS = 3
+// extents are read from this many pyramid buckets, so only their ragged edges are scanned row by row
+const EXTENT_BUCKETS = 64
+
+// baseline values for the mock generator, keyed by channel
+const MOCK_BASELINES: Record<string, number> = { speed: 2, current: 5, temp: 20 }
+// the mock logs temperature on its own at 1 Hz, like the car does
+const MOCK_SLOW_CHANNEL = "temp"
+
+const decoder = createFrameDecoder()
+const adapters = createDefaultAdapterChain()
+let session: TelemetrySession | null = null
+let link: LinkStatus = { connected: false, latency: 0, lastUpdate: null, mock: false }
+
+let socket: WebSocket | null = null
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+let reconnectAttempts = 0
+let snapshotTimer: ReturnType<typeof setTimeout> | null = null
+let mockTimer: ReturnType<typeof setInterval> | null = null
+let mockIndex = 0
+
+const postSnapshot = () => {
+  snapshotTimer = null
+  if (!session) return
+  scope.postMessage({ type: "snapshot", snapshot: { ...session.snapshot(), link, protocol: decoder.stats() } })
+}
+
+// changes are coalesced so the page re-renders at most once per interval
+const scheduleSnapshot = () => {
+  if (snapshotTimer === null) snapshotTimer = setTimeout(postSnapshot, SNAPSHOT_INTERVAL)
+}
+
+const updateLink = (changes: Partial<LinkStatus>) => {
+  link = { ...link, ...changes }
+  scheduleSnapshot()
+}
+
+const stopMock = () => {
+  if (mockTimer !== null) {
+    clearInterval(mockTimer)
+    mockTimer = null
+  }
+}
+
+const startMock = (current: TelemetrySession) => {
+  const hz = current.snapshot().hz
+  // the mock talks like a server that sends binary frames: its rows are encoded and go through the decoder
+  const layout: BinaryLayout = {
+    channels: Object.keys(MOCK_BASELINES).filter((key) => key !== MOCK_SLOW_CHANNEL),
+    sampleType: "f32",
+  }
+  const mockMeta: Meta = {
+    type: "meta",
+    sessionID: "mock",
+    series: Object.keys(MOCK_BASELINES).map((key) =>
+      key === MOCK_SLOW_CHANNEL ? { key, hz: 1, interpolation: "hold" as const } : key,
+    ),
+    hz,
+    timeUnit: "ms",
+    startTime: Date.now(),
+    binary: layout,
+  }
+  // a Meta is what announces the layout to the decoder
+  decoder.decode(mockMeta)
+  current.applyMeta(mockMeta)
+  current.start()
+
+  mockTimer = setInterval(() => {
+    const i = mockIndex++
+    const t = (i / hz) * 1000
+
+    const mockPoint: Point = { type: "point", t, seq: i }
+    for (const key of layout.channels) mockPoint[key] = MOCK_BASELINES[key] + Math.random()
+    const batch: (Point | Samples)[] = decoder.decodeBinary(encodeBinaryFrame([mockPoint], layout, i)) ?? []
+    if (i % Math.max(1, Math.round(hz)) === 0) {
+      batch.push({
+        type: "samples",
+        channel: MOCK_SLOW_CHANNEL,
+        t0: t,
+        hz: 1,
+        values: [MOCK_BASELINES[MOCK_SLOW_CHANNEL] + Math.random()],
+      })
+    }
+    current.push(batch)
+    updateLink({ lastUpdate: new Date() })
+  }, 1000 / hz)
+}
+
+const stopHeartbeat = () => {
+  if (heartbeatTimer !== null) {
+    clearInterval(heartbeatTimer)
+    heartbeatTimer = null
+  }
+}
+
+const connect = (url: string) => {
+  let streamStarted = false
+  let streamEnded = false
+
+  try {
+    const ws = new WebSocket(url)
+    ws.binaryType = "arraybuffer"
+    socket = ws
+
+    ws.onopen = () => {
+      console.log("[v0] WebSocket connected")
+      updateLink({ connected: true, mock: false })
+      reconnectAttempts = 0
+      adapters.reset()
+      stopMock()
+
+      // servers that understand this pick an encoding and announce any binary layout in Meta
+      const hello: Hello = { type: "hello", encodings: ["binary", "json"] }
+      ws.send(JSON.stringify(hello))
+
+      heartbeatTimer = setInterval(() => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: "ping", timestamp: Date.now() }))
+      }, HEARTBEAT_INTERVAL)
+    }
+
+    ws.onmessage = (event) => {
+      const current = session
+      if (!current) return
+      try {
+        const messages: telemetryMsg[] = []
+
+        if (typeof event.data === "string") {
+          const payload = decoder.parse(event.data)
+          if (!payload) return scheduleSnapshot()
+
+          if (!Array.isArray(payload) && payload.type === "pong") {
+            updateLink({ latency: Date.now() - Number(payload.timestamp) })
+            return
+          }
+
+          for (const frame of adapters.adapt(payload)) {
+            const message = decoder.decode(frame)
+            if (message) messages.push(message)
+          }
+        } else {
+          // binary frames carry Point rows in the layout the last Meta announced
+          messages.push(...(decoder.decodeBinary(event.data as ArrayBuffer) ?? []))
+        }
+
+        const samples: (Point | Samples)[] = []
+        for (const message of messages) {
+          if (message.type === "meta") {
+            current.applyMeta(message)
+            // the first announcement on a connection starts live playback
+            if (!streamStarted) {
+              streamStarted = true
+              current.start()
+            }
+          } else if (message.type === "end") {
+            current.push(samples.splice(0))
+            streamEnded = true
+            current.end(message.reason)
+          } else {
+            samples.push(message)
+          }
+        }
+        current.push(samples)
+        updateLink({ lastUpdate: new Date() })
+      } catch (error) {
+        console.error("[v0] Error parsing WebSocket message:", error)
+      }
+    }
+
+    ws.onclose = () => {
+      console.log("[v0] WebSocket disconnected")
+      socket = null
+      stopHeartbeat()
+      updateLink({ connected: false })
+
+      // a server that said "end" closed on purpose: keep the finished session on screen
+      if (streamEnded) return
+
+      // fall back to mock data right away; a socket that was up gets a few reconnect attempts first
+      if (!streamStarted || reconnectAttempts >= MAX_RECONNECTS) {
+        updateLink({ mock: true })
+        return
+      }
+      const backoffDelay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000)
+      reconnectAttempts++
+      reconnectTimer = setTimeout(() => connect(url), backoffDelay)
+    }
+
+    ws.onerror = () => {
+      console.log("[v0] WebSocket connection failed, will use mock data")
+    }
+  } catch (error) {
+    console.log("[v0] Failed to create WebSocket connection, using mock data")
+    updateLink({ mock: true })
+  }
+}
+
+const answer = (current: TelemetrySession, id: number, query: WorkerQuery) => {
+  const { store } = current
+  if (query.type === "measure") {
+    scope.postMessage({ type: "result", id, result: measureBetween(store, query.a, query.b, query.keys, query.interpolation) })
+    return
+  }
+
+  const window =
+    query.t0 === null || query.t1 === null ? store.window(0, store.length) : store.sliceByTime(query.t0, query.t1)
+
+  if (query.type === "export") {
+    const columns = rowsToColumns(alignRows(store.rows(window), query.keys, query.interpolation), query.keys)
+    scope.postMessage({ type: "result", id, result: columns }, transferablesOf(columns))
+    return
+  }
+
+  // raw samples while they are few enough to draw, otherwise every visible channel decimated on its own.
+  // Channels stay on their own timestamps: aligning them here would draw each at every other channel's points.
+  const decimated =
+    window.length <= query.threshold
+      ? rawWindow(window, query.keys)
+      : decimateWindow(store, window, query.keys, query.pixels, query.mode)
+
+  const { channels, gaps } = current.snapshot()
+  const series = Object.fromEntries(
+    Object.entries(decimated.series).map(([key, channel]) => [key, withGapBreaks(channel, gaps)]),
+  )
+  const enabled = Object.fromEntries(query.keys.map((key) => [key, true]))
+  const result = {
+    series,
+    points: decimated.points,
+    length: window.length,
+    kpis: computeKpis(window, channels, enabled, query.warning),
+    extents: bucketExtents(store.aggregate(window, EXTENT_BUCKETS), query.keys),
+    sessionExtents: bucketExtents(store.aggregate(store.window(0, store.length), EXTENT_BUCKETS), query.keys),
+  }
+  scope.postMessage({ type: "result", id, result }, seriesTransferables(series))
+}
+
+scope.onmessage = (event) => {
+  const request = event.data
+  if (request.type === "init") {
+    session = createTelemetrySession(request.options, scheduleSnapshot)
+    scheduleSnapshot()
+    return
+  }
+  const current = session
+  if (!current) return
+
+  switch (request.type) {
+    case "connect":
+      if (reconnectTimer !== null) clearTimeout(reconnectTimer)
+      socket?.close()
+      connect(request.url)
+      break
+    case "play":
+      if (socket?.readyState === WebSocket.OPEN) current.start()
+      else {
+        stopMock()
+        startMock(current)
+      }
+      break
+    case "pause":
+      stopMock()
+      current.pause()
+      break
+    case "clear":
+      mockIndex = 0
+      current.clear()
+      break
+    case "setHz":
+      current.setHz(request.hz)
+      break
+    case "markLap":
+      current.markLap()
+      break
+    case "query":
+      // a failed query still gets a reply, so the page's promise settles and it can ask again
+      try {
+        answer(current, request.id, request.query)
+      } catch (error) {
+        console.error("[v0] Error answering query:", error)
+        scope.postMessage({
+          type: "error",
+          id: request.id,
+          message: error instanceof Error ? error.message : String(error),
+        })
+      }
+      break
+  }
+}
@@ -1,18 +1,48 @@
+// display metadata for one channel announced in Meta.series
+export type SeriesMeta = {
+    key: string; // field name carried by Point messages
+    label?: string;
+    unit?: string;
+    min?: number; // expected range, used for axis scaling
+    max?: number;
+    precision?: number; // decimals to display
+    color?: string; // suggested css color
+    hz?: number; // native rate when the channel is sent as its own Samples stream
+    interpolation?: "hold" | "linear"; // how to resample onto a shared timeline, defaults to linear
+};
+
+// column layout of binary frames, announced in Meta by servers that send them
+export type BinaryLayout = {
+    channels: string[]; // value order within each row, after the f64 timestamp
+    sampleType: "f32" | "f64";
+};
+
 // describes one kind of message: info about the stream
 export type Meta = {
     type: "meta";
     sessionID: string;
-    series: string[];
+    series: (string | SeriesMeta)[]; // a bare string is shorthand for { key }
     hz: number;
+    timeUnit?: "s" | "ms" | "us"; // unit of Point.t, defaults to ms
+    startTime?: number; // wall-clock epoch (ms) of the session start
+    binary?: BinaryLayout; // present when Point rows will also arrive as binary frames
 };
 
 // describes one actual data point
 export type Point = {
     type: "point";
-    t: number //timestamp (ms)
-    speed?: number;
-    current?: number;
-    temp?: number;
+    t: number //timestamp, in Meta.timeUnit (ms by default): an offset from session start or an epoch time
+    seq?: number; // optional sequence number, +1 per sample, used to detect drops
+    [channel: string]: number | string | undefined; // one value per channel in Meta.series
+};
+
+// a block of consecutive samples for one channel at its own rate: values[i] is at t0 + i / hz seconds
+export type Samples = {
+    type: "samples";
+    channel: string;
+    t0: number; // same unit and reference as Point.t
+    hz: number;
+    values: number[];
 };
 
 // marks the end of a stream
@@ -21,4 +51,16 @@ export type End = {
     reason?: string;
 };
 
-export type telemetryMsg = Meta | Point | End;
+export type telemetryMsg = Meta | Point | Samples | End;
+
+// sent by the client on connect: the encodings it can decode, so the server can pick one and announce it in Meta
+export type Hello = {
+    type: "hello";
+    encodings: ("json" | "binary")[];
+};
+
+// one buffered sample: offset from session start plus a value for each channel it carried
+export type TelemetryPoint = {
+    t: number; // seconds since TimeBase.startEpoch
+    [channel: string]: number;
+};